@@ -0,0 +1,144 @@
+import JSBI from 'jsbi'
+import invariant from 'tiny-invariant'
+
+import { ONE, THREE, TWO, ZERO } from './constants'
+import { BestTradeOptions, Pair, Route, Token, TokenAmount, Trade } from './entities'
+import { Router, SwapParameters, TradeOptions } from './router'
+import { sortedInsert } from './utils'
+
+/**
+ * A profitable trade from a token back to itself through a cycle of pairs.
+ */
+export interface ArbitrageOpportunity {
+  /**
+   * The trade around the cycle at the most profitable input amount.
+   */
+  trade: Trade
+  /**
+   * The output amount less the input amount of the trade.
+   */
+  profit: TokenAmount
+  /**
+   * The call parameters of the trade. Pass an allowed slippage small enough for the minimum output to cover the input,
+   * so the trade reverts rather than loses money if the pairs move first.
+   */
+  swapParameters: SwapParameters
+}
+
+/**
+ * Returns the profit of trading the amount around the route, undefined if the trade cannot execute
+ */
+function profitOf(route: Route, amountIn: JSBI): [Trade, JSBI] | undefined {
+  try {
+    const trade = Trade.exactIn(route, new TokenAmount(route.path[0], amountIn))
+    return [trade, JSBI.subtract(trade.outputAmount.raw, amountIn)]
+  } catch (error) {
+    if (error.isInsufficientInputAmountError || error.isInsufficientReservesError || error.isTradeNotSupportedError) {
+      return undefined
+    }
+    throw error
+  }
+}
+
+// whether the first result is more profitable than the second, trades that cannot execute being the least profitable
+function isMoreProfitable(a: [Trade, JSBI] | undefined, b: [Trade, JSBI] | undefined): boolean {
+  if (a === undefined) return false
+  if (b === undefined) return true
+  return JSBI.greaterThan(a[1], b[1])
+}
+
+// ranks opportunities by profit, then by the number of hops since each hop costs gas
+function opportunityComparator(a: ArbitrageOpportunity, b: ArbitrageOpportunity): number {
+  if (!a.profit.equalTo(b.profit)) {
+    return a.profit.greaterThan(b.profit) ? -1 : 1
+  }
+  return a.trade.route.path.length - b.trade.route.path.length
+}
+
+/**
+ * Has static methods for finding arbitrage between pairs.
+ */
+export abstract class Arbitrage {
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {}
+
+  /**
+   * Returns the routes from the token back to itself through at least two and at most `maxHops` pairs, going through
+   * each pair and each other token at most once. Both directions of a cycle are returned.
+   * @param pairs the pairs to consider
+   * @param token the token the cycles start and end at
+   * @param maxHops maximum number of hops of a cycle
+   */
+  public static cycles(pairs: Pair[], token: Token, maxHops: number = 3): Route[] {
+    invariant(maxHops > 1, 'MAX_HOPS')
+    const cycles: Route[] = []
+    const search = (current: Token, currentPairs: Pair[], visited: Token[]): void => {
+      for (const pair of pairs) {
+        if (!pair.involvesToken(current) || currentPairs.indexOf(pair) !== -1) continue
+        if (pair.reserve0.equalTo(ZERO) || pair.reserve1.equalTo(ZERO)) continue
+        const next = pair.token0.equals(current) ? pair.token1 : pair.token0
+        if (next.equals(token)) {
+          if (currentPairs.length > 0) cycles.push(new Route([...currentPairs, pair], token, token))
+        } else if (currentPairs.length < maxHops - 1 && !visited.some(visitedToken => visitedToken.equals(next))) {
+          search(next, [...currentPairs, pair], [...visited, next])
+        }
+      }
+    }
+    search(token, [], [token])
+    return cycles
+  }
+
+  /**
+   * Finds the cycles from the token back to itself through the pairs, and the input amount each one is most
+   * profitable at, using the same pair math as `Trade.exactIn`. Returns the profitable ones, the most profitable first,
+   * with the call parameters to trade them.
+   * @param pairs the pairs to consider
+   * @param token the token to start and end with
+   * @param options options for the call parameters of each trade
+   * @param maxNumResults maximum number of opportunities to return
+   * @param maxHops maximum number of hops of a cycle
+   */
+  public static opportunities(
+    pairs: Pair[],
+    token: Token,
+    options: TradeOptions,
+    { maxNumResults = 3, maxHops = 3 }: BestTradeOptions = {}
+  ): ArbitrageOpportunity[] {
+    const opportunities: ArbitrageOpportunity[] = []
+    for (const route of Arbitrage.cycles(pairs, token, maxHops)) {
+      // the route loses even the first unit to its prices
+      if (!route.midPrice.raw.greaterThan(ONE)) continue
+
+      // the profit rises with the input until the price moved by it costs more than the cycle gains
+      let left = ONE
+      let right = route.pairs[0].reserveOf(token).raw
+      while (JSBI.greaterThan(JSBI.subtract(right, left), TWO)) {
+        const third = JSBI.divide(JSBI.subtract(right, left), THREE)
+        const leftThird = JSBI.add(left, third)
+        const rightThird = JSBI.subtract(right, third)
+        if (isMoreProfitable(profitOf(route, rightThird), profitOf(route, leftThird))) {
+          left = leftThird
+        } else {
+          right = rightThird
+        }
+      }
+      let best: [Trade, JSBI] | undefined
+      for (let amount = left; JSBI.lessThanOrEqual(amount, right); amount = JSBI.add(amount, ONE)) {
+        const result = profitOf(route, amount)
+        if (isMoreProfitable(result, best)) best = result
+      }
+
+      if (best === undefined || !JSBI.greaterThan(best[1], ZERO)) continue
+      const [trade, profit] = best
+      sortedInsert(
+        opportunities,
+        { trade, profit: new TokenAmount(token, profit), swapParameters: Router.swapCallParameters(trade, options) },
+        maxNumResults,
+        opportunityComparator
+      )
+    }
+    return opportunities
+  }
+}
@@ -0,0 +1,166 @@
+import invariant from 'tiny-invariant'
+
+import { ChainId } from './constants'
+
+/**
+ * A cache of values derived from the chain, such as token decimals and pair addresses. Caches are synchronous since
+ * pair addresses are computed synchronously, so to share a cache between processes, persist a snapshot of it and seed
+ * the cache of each process with it at startup.
+ */
+export interface Cache<V> {
+  /**
+   * Returns the value cached for the key, undefined if there is none
+   * @param key key of the value
+   */
+  get(key: string): V | undefined
+  /**
+   * Caches the value for the key, replacing any value already cached for it
+   * @param key key of the value
+   * @param value the value
+   */
+  set(key: string, value: V): void
+}
+
+/**
+ * Options for constructing an `LRUCache`.
+ */
+export interface LRUCacheOptions {
+  /**
+   * The most values the cache holds, beyond which the least recently used values are evicted.
+   */
+  maxSize?: number
+  /**
+   * How long a value stays cached, in milliseconds. Values never expire if unset.
+   */
+  ttl?: number
+}
+
+interface LRUCacheEntry<V> {
+  value: V
+  expiresAt?: number
+}
+
+/**
+ * An in-memory cache holding at most `maxSize` values, evicting the least recently used first, whose values can expire
+ * after a time to live.
+ */
+export class LRUCache<V> implements Cache<V> {
+  public readonly maxSize: number
+  public readonly ttl?: number
+
+  // in order of use, the least recently used first
+  private readonly entries = new Map<string, LRUCacheEntry<V>>()
+
+  /**
+   * Constructs an empty cache
+   * @param options the size and time to live of the cache
+   */
+  public constructor({ maxSize = 10000, ttl }: LRUCacheOptions = {}) {
+    invariant(maxSize > 0, 'MAX_SIZE')
+    invariant(ttl === undefined || ttl > 0, 'TTL')
+    this.maxSize = maxSize
+    this.ttl = ttl
+  }
+
+  /**
+   * The number of values in the cache, including expired values not evicted yet.
+   */
+  public get size(): number {
+    return this.entries.size
+  }
+
+  public get(key: string): V | undefined {
+    const entry = this.entries.get(key)
+    if (entry === undefined) return undefined
+    this.entries.delete(key)
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) return undefined
+    this.entries.set(key, entry)
+    return entry.value
+  }
+
+  public set(key: string, value: V): void {
+    this.entries.delete(key)
+    this.entries.set(key, { value, expiresAt: this.ttl === undefined ? undefined : Date.now() + this.ttl })
+    while (this.entries.size > this.maxSize) {
+      this.entries.delete(this.entries.keys().next().value)
+    }
+  }
+
+  /**
+   * Returns the values in the cache that have not expired, keyed as they are cached, e.g. to persist and seed another
+   * cache with. Called by `JSON.stringify`.
+   */
+  public toJSON(): { [key: string]: V } {
+    const now = Date.now()
+    const snapshot: { [key: string]: V } = {}
+    this.entries.forEach(({ value, expiresAt }, key) => {
+      if (expiresAt === undefined || expiresAt > now) snapshot[key] = value
+    })
+    return snapshot
+  }
+}
+
+/**
+ * Caches every value of the snapshot under its key, e.g. to seed a cache from a snapshot persisted by another process
+ * @param cache the cache to seed
+ * @param snapshot the values to cache, keyed as they are cached
+ */
+export function seedCache<V>(cache: Cache<V>, snapshot: { [key: string]: V }): void {
+  for (const key of Object.keys(snapshot)) {
+    cache.set(key, snapshot[key])
+  }
+}
+
+/**
+ * Returns the key token decimals are cached under
+ * @param chainId chain of the token
+ * @param address checksummed address of the token
+ */
+export function tokenDecimalsKey(chainId: ChainId, address: string): string {
+  return `${chainId}:${address}`
+}
+
+/**
+ * Returns the key pair addresses are cached under
+ * @param factory address of the factory that created the pair
+ * @param token0Address address of the token sorting first
+ * @param token1Address address of the token sorting last
+ */
+export function pairAddressKey(factory: string, token0Address: string, token1Address: string): string {
+  return `${factory}:${token0Address}:${token1Address}`
+}
+
+let TOKEN_DECIMALS_CACHE: Cache<number> = new LRUCache()
+
+let PAIR_ADDRESS_CACHE: Cache<string> = new LRUCache()
+
+/**
+ * Returns the cache the fetcher keeps the decimals of tokens in, keyed by `tokenDecimalsKey`
+ */
+export function getTokenDecimalsCache(): Cache<number> {
+  return TOKEN_DECIMALS_CACHE
+}
+
+/**
+ * Replaces the cache the fetcher keeps the decimals of tokens in, keyed by `tokenDecimalsKey`. The decimals the fetcher
+ * ships with for tokens without a `decimals()` method are used whenever the cache misses, so it need not hold them.
+ * @param cache the cache to use from now on
+ */
+export function setTokenDecimalsCache(cache: Cache<number>): void {
+  TOKEN_DECIMALS_CACHE = cache
+}
+
+/**
+ * Returns the cache `Pair.getAddress` keeps the addresses it computes in, keyed by `pairAddressKey`
+ */
+export function getPairAddressCache(): Cache<string> {
+  return PAIR_ADDRESS_CACHE
+}
+
+/**
+ * Replaces the cache `Pair.getAddress` keeps the addresses it computes in, keyed by `pairAddressKey`
+ * @param cache the cache to use from now on
+ */
+export function setPairAddressCache(cache: Cache<string>): void {
+  PAIR_ADDRESS_CACHE = cache
+}
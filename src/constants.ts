@@ -14,6 +14,12 @@ export enum TradeType {
   EXACT_OUTPUT
 }
 
+export enum WrapType {
+  NOT_APPLICABLE,
+  WRAP,
+  UNWRAP
+}
+
 export enum Rounding {
   ROUND_DOWN,
   ROUND_HALF_UP,
@@ -31,6 +37,9 @@ export const FACTORY_ADDRESS = '0x4233ad9b8b7c1ccf0818907908a7f0796a3df85f'
 
 export const INIT_CODE_HASH = '0xfc84b622ba228c468b74c2d99bfe9454ffac280ac017f05a02feb9f739aeb1e4'
 
+// Multicall3, deployed at the same address on every supported chain
+export const MULTICALL_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11'
+
 export const MINIMUM_LIQUIDITY = JSBI.BigInt(1000)
 
 // exports for internal consumption
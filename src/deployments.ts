@@ -0,0 +1,91 @@
+import { getAddress } from '@ethersproject/address'
+import invariant from 'tiny-invariant'
+
+import { ChainId, FACTORY_ADDRESS, INIT_CODE_HASH, MULTICALL_ADDRESS } from './constants'
+import { Currency } from './entities/currency'
+import { Token, WETH } from './entities/token'
+import { validateAndParseAddress } from './utils'
+
+/**
+ * The Impossible contracts deployed on a chain.
+ */
+export interface Deployment {
+  /**
+   * Address of the factory that creates the pairs.
+   */
+  factory: string
+  /**
+   * Hash of the pair creation code, used to compute pair addresses from the factory.
+   */
+  initCodeHash: string
+  /**
+   * Address of the Multicall3 contract the fetcher batches calls through, if the chain has one.
+   */
+  multicall?: string
+  /**
+   * The chain's native currency, i.e. what the router sends and receives as ether.
+   */
+  nativeCurrency: Currency
+  /**
+   * The token wrapping the chain's native currency.
+   */
+  wrappedNative: Token
+}
+
+const DEPLOYMENTS: { [chainId: number]: Deployment } = {
+  [ChainId.MAINNET]: {
+    factory: getAddress(FACTORY_ADDRESS),
+    initCodeHash: INIT_CODE_HASH,
+    multicall: MULTICALL_ADDRESS,
+    nativeCurrency: Currency.ETHER,
+    wrappedNative: WETH[ChainId.MAINNET]
+  },
+  [ChainId.BSCTESTNET]: {
+    factory: getAddress(FACTORY_ADDRESS),
+    initCodeHash: INIT_CODE_HASH,
+    multicall: MULTICALL_ADDRESS,
+    nativeCurrency: Currency.ETHER,
+    wrappedNative: WETH[ChainId.BSCTESTNET]
+  },
+  [ChainId.MOONRIVER]: {
+    factory: getAddress(FACTORY_ADDRESS),
+    initCodeHash: INIT_CODE_HASH,
+    multicall: MULTICALL_ADDRESS,
+    nativeCurrency: Currency.MOVR,
+    wrappedNative: WETH[ChainId.MOONRIVER]
+  }
+}
+
+// a 32 byte hash in hex
+const INIT_CODE_HASH_REGEX = /^0x[0-9a-fA-F]{64}$/
+
+/**
+ * Returns the deployment registered for the given chain
+ * @param chainId chain of the deployment
+ * @throws if no deployment is registered for the chain
+ */
+export function getDeployment(chainId: ChainId): Deployment {
+  const deployment = DEPLOYMENTS[chainId]
+  invariant(deployment !== undefined, 'DEPLOYMENT')
+  return deployment
+}
+
+/**
+ * Registers the deployment for a chain, e.g. a chain the SDK does not ship with or a fork of one it does. Replaces any
+ * deployment already registered for the chain.
+ * @param chainId chain of the deployment
+ * @param deployment the contracts deployed on the chain
+ * @throws if the init code hash is not 32 bytes of hex
+ */
+export function registerDeployment(chainId: ChainId, deployment: Deployment): void {
+  invariant(deployment.wrappedNative.chainId === chainId, 'CHAIN_ID')
+  invariant(INIT_CODE_HASH_REGEX.test(deployment.initCodeHash), 'INIT_CODE_HASH')
+  invariant(!(deployment.nativeCurrency instanceof Token), 'NATIVE_CURRENCY')
+  DEPLOYMENTS[chainId] = {
+    factory: validateAndParseAddress(deployment.factory),
+    initCodeHash: deployment.initCodeHash,
+    multicall: deployment.multicall !== undefined ? validateAndParseAddress(deployment.multicall) : undefined,
+    nativeCurrency: deployment.nativeCurrency,
+    wrappedNative: deployment.wrappedNative
+  }
+}
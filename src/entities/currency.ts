@@ -6,7 +6,7 @@ import { validateSolidityTypeInstance } from '../utils'
 /**
  * A currency is any fungible financial instrument on Ethereum, including Ether and all ERC20 tokens.
  *
- * The only instance of the base class `Currency` is Ether.
+ * Instances of the base class `Currency` are the native currencies of the chains, e.g. BNB or MOVR.
  */
 export class Currency {
   public readonly decimals: number
@@ -14,17 +14,23 @@ export class Currency {
   public readonly name?: string
 
   /**
-   * The only instance of the base class `Currency`.
+   * The native currency of BSC and the BSC testnet.
    */
   public static readonly ETHER: Currency = new Currency(18, 'BNB', 'Binance')
 
   /**
-   * Constructs an instance of the base class `Currency`. The only instance of the base class `Currency` is `Currency.ETHER`.
+   * The native currency of Moonriver.
+   */
+  public static readonly MOVR: Currency = new Currency(18, 'MOVR', 'Moonriver')
+
+  /**
+   * Constructs an instance of the base class `Currency`, i.e. a native currency. Native currencies are compared by
+   * reference, so construct one per chain and register it with the chain's deployment.
    * @param decimals decimals of the currency
    * @param symbol symbol of the currency
    * @param name of the currency
    */
-  protected constructor(decimals: number, symbol?: string, name?: string) {
+  public constructor(decimals: number, symbol?: string, name?: string) {
     validateSolidityTypeInstance(JSBI.BigInt(decimals), SolidityType.uint8)
 
     this.decimals = decimals
@@ -34,4 +40,5 @@ export class Currency {
 }
 
 const ETHER = Currency.ETHER
-export { ETHER }
+const MOVR = Currency.MOVR
+export { ETHER, MOVR }
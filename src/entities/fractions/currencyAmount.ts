@@ -1,4 +1,4 @@
-import { currencyEquals } from '../token'
+import { currencyEquals, Token } from '../token'
 import { Currency, ETHER } from '../currency'
 import invariant from 'tiny-invariant'
 import JSBI from 'jsbi'
@@ -22,6 +22,16 @@ export class CurrencyAmount extends Fraction {
     return new CurrencyAmount(ETHER, amount)
   }
 
+  /**
+   * Helper that calls the constructor with a native currency, e.g. the native currency of a chain's deployment
+   * @param currency the native currency
+   * @param amount amount in the smallest unit of the currency
+   */
+  public static native(currency: Currency, amount: BigintIsh): CurrencyAmount {
+    invariant(!(currency instanceof Token), 'CURRENCY')
+    return new CurrencyAmount(currency, amount)
+  }
+
   // amount _must_ be raw, i.e. in the native representation
   protected constructor(currency: Currency, amount: BigintIsh) {
     const parsedAmount = parseBigintIsh(amount)
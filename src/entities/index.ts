@@ -2,6 +2,9 @@ export * from './token'
 export * from './pair'
 export * from './route'
 export * from './trade'
+export * from './splitTrade'
+export * from './pairGraph'
+export * from './poolRegistry'
 export * from './currency'
 
 export * from './fractions'
@@ -5,25 +5,97 @@ import JSBI from 'jsbi'
 import { pack, keccak256 } from '@ethersproject/solidity'
 import { getCreate2Address } from '@ethersproject/address'
 
-import {
-  BigintIsh,
-  FACTORY_ADDRESS,
-  INIT_CODE_HASH,
-  MINIMUM_LIQUIDITY,
-  ZERO,
-  ONE,
-  TWO,
-  FIVE,
-  EIGHT,
-  _10000,
-  ChainId,
-  TradeState
-} from '../constants'
+import { BigintIsh, MINIMUM_LIQUIDITY, ZERO, ONE, TWO, FIVE, EIGHT, _10000, ChainId, TradeState } from '../constants'
+import { getDeployment } from '../deployments'
+import { getPairAddressCache, pairAddressKey } from '../caches'
 import { sqrt, parseBigintIsh } from '../utils'
 import { InsufficientReservesError, InsufficientInputAmountError, TradeNotSupportedError } from '../errors'
 import { Token } from './token'
 
-let PAIR_ADDRESS_CACHE: { [token0Address: string]: { [token1Address: string]: string } } = {}
+// the largest amount swapped in when searching for a price, beyond which the price is taken to be out of reach
+const MAX_SWAP_AMOUNT = JSBI.exponentiate(TWO, JSBI.BigInt(128))
+
+/**
+ * Schedule along which an xybk pair moves its boosts from the old values to the new values, one block at a time.
+ */
+export interface BoostRamp {
+  oldBoost0: number
+  oldBoost1: number
+  newBoost0: number
+  newBoost1: number
+  startBlock: number
+  endBlock: number
+}
+
+/**
+ * A part of a swap priced at a single boost.
+ */
+export interface SwapLeg {
+  /**
+   * The amount swapped into the pair in this leg, including its share of the fee.
+   */
+  inputAmount: TokenAmount
+  /**
+   * The amount received from the pair in this leg.
+   */
+  outputAmount: TokenAmount
+  /**
+   * The boost the leg is priced at, 1 for pairs that are not xybk.
+   */
+  boost: number
+}
+
+/**
+ * The result of swapping through a pair.
+ */
+export interface PairQuote {
+  /**
+   * The amount swapped into the pair.
+   */
+  inputAmount: TokenAmount
+  /**
+   * The amount received from the pair, which cannot exceed its reserve.
+   */
+  outputAmount: TokenAmount
+  /**
+   * The amount the curve gives before it is capped at the reserve, equal to the output amount for exact outputs.
+   */
+  uncappedOutputAmount: TokenAmount
+  /**
+   * The part of the input amount paid to liquidity providers as the trade fee.
+   */
+  feeAmount: TokenAmount
+  /**
+   * The pair after the swap.
+   */
+  nextPair: Pair
+  /**
+   * Whether the swap crosses the balance point of an xybk pair with different boosts, so it is priced in two phases,
+   * one for each boost.
+   */
+  isTwoPhase: boolean
+  /**
+   * The parts of the swap in the order they execute, one per boost the swap is priced at.
+   */
+  legs: SwapLeg[]
+  /**
+   * The price of the input token in the output token, before fees, at the balance point where the swap switches
+   * boosts. Undefined unless the swap is priced in two phases.
+   */
+  crossoverPrice?: Price
+}
+
+/**
+ * Mirrors the on-chain linear interpolation of a boost between the start and end block of a ramp
+ */
+function interpolateBoost(oldBoost: number, newBoost: number, ramp: BoostRamp, currentBlock: number): number {
+  if (currentBlock >= ramp.endBlock) return newBoost
+  if (currentBlock <= ramp.startBlock) return oldBoost
+  return Math.floor(
+    (oldBoost * (ramp.endBlock - currentBlock) + newBoost * (currentBlock - ramp.startBlock)) /
+      (ramp.endBlock - ramp.startBlock)
+  )
+}
 
 export class Pair {
   public readonly liquidityToken: Token
@@ -33,27 +105,59 @@ export class Pair {
   public readonly boost1: number
   public readonly sqrtK: JSBI
   public readonly tradeState: TradeState
+  public readonly boostRamp?: BoostRamp
+  public readonly currentBlock?: number
 
   private readonly tokenAmounts: [TokenAmount, TokenAmount]
 
   public static getAddress(tokenA: Token, tokenB: Token): string {
     const tokens = tokenA.sortsBefore(tokenB) ? [tokenA, tokenB] : [tokenB, tokenA] // does safety checks
-
-    if (PAIR_ADDRESS_CACHE?.[tokens[0].address]?.[tokens[1].address] === undefined) {
-      PAIR_ADDRESS_CACHE = {
-        ...PAIR_ADDRESS_CACHE,
-        [tokens[0].address]: {
-          ...PAIR_ADDRESS_CACHE?.[tokens[0].address],
-          [tokens[1].address]: getCreate2Address(
-            FACTORY_ADDRESS,
-            keccak256(['bytes'], [pack(['address', 'address'], [tokens[0].address, tokens[1].address])]),
-            INIT_CODE_HASH
-          )
-        }
-      }
+    const { factory, initCodeHash } = getDeployment(tokens[0].chainId)
+
+    const cache = getPairAddressCache()
+    const key = pairAddressKey(factory, tokens[0].address, tokens[1].address)
+    let address = cache.get(key)
+    if (address === undefined) {
+      address = getCreate2Address(
+        factory,
+        keccak256(['bytes'], [pack(['address', 'address'], [tokens[0].address, tokens[1].address])]),
+        initCodeHash
+      )
+      cache.set(key, address)
     }
+    return address
+  }
 
-    return PAIR_ADDRESS_CACHE[tokens[0].address][tokens[1].address]
+  /**
+   * Constructs a pair whose boosts are ramping, using the boosts interpolated at the given block
+   * @param tokenAmountA reserve of the first token
+   * @param tokenAmountB reserve of the second token
+   * @param isXybk if the pool is using xybk invariant or not
+   * @param fee fee of the pool in basis points
+   * @param boostRamp old and new boosts of the pool, and the blocks the ramp starts and ends at
+   * @param currentBlock block at which the boosts are interpolated
+   * @param tradeState directions the pool allows trading in
+   */
+  public static fromBoostRamp(
+    tokenAmountA: TokenAmount,
+    tokenAmountB: TokenAmount,
+    isXybk: Boolean,
+    fee: number,
+    boostRamp: BoostRamp,
+    currentBlock: number,
+    tradeState: TradeState
+  ): Pair {
+    return new Pair(
+      tokenAmountA,
+      tokenAmountB,
+      isXybk,
+      fee,
+      interpolateBoost(boostRamp.oldBoost0, boostRamp.newBoost0, boostRamp, currentBlock),
+      interpolateBoost(boostRamp.oldBoost1, boostRamp.newBoost1, boostRamp, currentBlock),
+      tradeState,
+      boostRamp,
+      currentBlock
+    )
   }
 
   public constructor(
@@ -63,10 +167,21 @@ export class Pair {
     fee: number,
     boost0: number,
     boost1: number,
-    tradeState: TradeState
+    tradeState: TradeState,
+    boostRamp?: BoostRamp,
+    currentBlock?: number
   ) {
     invariant(boost0 >= 1 && boost1 >= 1, 'INVALID_BOOST')
     invariant(fee >= 0 && fee <= 10000, 'INVALID_FEE')
+    if (boostRamp) {
+      invariant(boostRamp.startBlock <= boostRamp.endBlock, 'INVALID_BOOST_RAMP')
+      invariant(currentBlock !== undefined, 'CURRENT_BLOCK')
+      invariant(
+        boost0 === interpolateBoost(boostRamp.oldBoost0, boostRamp.newBoost0, boostRamp, currentBlock) &&
+          boost1 === interpolateBoost(boostRamp.oldBoost1, boostRamp.newBoost1, boostRamp, currentBlock),
+        'BOOST_RAMP'
+      )
+    }
 
     const tokenAmounts = tokenAmountA.token.sortsBefore(tokenAmountB.token) // does safety checks
       ? [tokenAmountA, tokenAmountB]
@@ -85,6 +200,44 @@ export class Pair {
     this.boost1 = boost1
     this.sqrtK = this.computeXybkSqrtK(boost0, boost1)
     this.tradeState = tradeState
+    this.boostRamp = boostRamp
+    this.currentBlock = currentBlock
+  }
+
+  /**
+   * Returns the pair with its boosts interpolated at the given block. Pairs without a boost ramp are returned as is.
+   * @param blockNumber block to move the boost ramp to
+   */
+  public atBlock(blockNumber: number): Pair {
+    if (!this.boostRamp) return this
+    return Pair.fromBoostRamp(
+      this.reserve0,
+      this.reserve1,
+      this.isXybk,
+      this.fee,
+      this.boostRamp,
+      blockNumber,
+      this.tradeState
+    )
+  }
+
+  /**
+   * Returns the pair with the given reserves and the same settings, e.g. after liquidity is added or removed
+   * @param tokenAmountA reserve of one of the pair's tokens
+   * @param tokenAmountB reserve of the other token
+   */
+  public withReserves(tokenAmountA: TokenAmount, tokenAmountB: TokenAmount): Pair {
+    return new Pair(
+      tokenAmountA,
+      tokenAmountB,
+      this.isXybk,
+      this.fee,
+      this.boost0,
+      this.boost1,
+      this.tradeState,
+      this.boostRamp,
+      this.currentBlock
+    )
   }
 
   /**
@@ -250,6 +403,16 @@ export class Pair {
      2. amounts of output tokens that will be received from this trade (this value cannot exceed reserveOut)
   */
   public getOutputAmount(amountIn: TokenAmount): [TokenAmount, TokenAmount, Pair] {
+    const { outputAmount, uncappedOutputAmount, nextPair } = this.getOutputQuote(amountIn)
+    return [outputAmount, uncappedOutputAmount, nextPair]
+  }
+
+  /**
+   * Returns the quote for swapping the given amount into the pair, i.e. the output received, the output before it is
+   * capped at the reserves, the fee paid and the pair after the swap
+   * @param amountIn exact amount of one of the pair's tokens to swap
+   */
+  public getOutputQuote(amountIn: TokenAmount): PairQuote {
     invariant(this.involvesToken(amountIn.token), 'TOKEN')
     if (JSBI.equal(this.reserve0.raw, ZERO) && JSBI.equal(this.reserve1.raw, ZERO)) {
       throw new InsufficientReservesError()
@@ -276,6 +439,8 @@ export class Pair {
 
     let term: JSBI = ZERO
     let amountOutFirstTrade: JSBI = ZERO
+    let isTwoPhase = false
+    let boost = 1
 
     if (this.isXybk) {
       if (
@@ -284,9 +449,11 @@ export class Pair {
           JSBI.multiply(this.sqrtK, _10000)
         )
       ) {
-        term = this.artiLiquidityTerm(isMatch ? this.boost0 : this.boost1)
+        boost = isMatch ? this.boost0 : this.boost1
+        term = this.artiLiquidityTerm(boost)
 
         if (JSBI.greaterThan(this.sqrtK, reserveInJSBI) && this.boost0 !== this.boost1) {
+          isTwoPhase = true
           amountOutFirstTrade = JSBI.subtract(reserveOutJSBI, this.sqrtK)
           amountInPostFee = JSBI.subtract(
             amountInPostFee,
@@ -296,7 +463,8 @@ export class Pair {
           reserveOutJSBI = this.sqrtK
         }
       } else {
-        term = this.artiLiquidityTerm(isMatch ? this.boost1 : this.boost0)
+        boost = isMatch ? this.boost1 : this.boost0
+        term = this.artiLiquidityTerm(boost)
       }
     }
 
@@ -316,22 +484,39 @@ export class Pair {
       throw new InsufficientInputAmountError()
     }
 
-    return [
-      amountOut,
-      new TokenAmount(isMatch ? this.token1 : this.token0, JSBI.add(lastSwapAmountOut, amountOutFirstTrade)),
-      new Pair(
-        reserveOut.subtract(amountOut),
-        reserveIn.add(amountIn),
-        this.isXybk,
-        this.fee,
-        this.boost0,
-        this.boost1,
-        this.tradeState
-      )
-    ]
+    const legs: SwapLeg[] = isTwoPhase
+      ? this.twoPhaseLegs(amountIn, amountOut, boost)
+      : [{ inputAmount: amountIn, outputAmount: amountOut, boost }]
+
+    return {
+      inputAmount: amountIn,
+      outputAmount: amountOut,
+      uncappedOutputAmount: new TokenAmount(
+        isMatch ? this.token1 : this.token0,
+        JSBI.add(lastSwapAmountOut, amountOutFirstTrade)
+      ),
+      feeAmount: new TokenAmount(
+        amountIn.token,
+        JSBI.divide(JSBI.multiply(amountIn.raw, JSBI.BigInt(this.fee)), _10000)
+      ),
+      nextPair: this.withReserves(reserveOut.subtract(amountOut), reserveIn.add(amountIn)),
+      isTwoPhase,
+      legs,
+      crossoverPrice: isTwoPhase ? new Price(amountIn.token, amountOut.token, ONE, ONE) : undefined
+    }
   }
 
   public getInputAmount(amountOut: TokenAmount): [TokenAmount, Pair] {
+    const { inputAmount, nextPair } = this.getInputQuote(amountOut)
+    return [inputAmount, nextPair]
+  }
+
+  /**
+   * Returns the quote for swapping out the given amount from the pair, i.e. the input required, the fee paid and the
+   * pair after the swap
+   * @param amountOut exact amount of one of the pair's tokens to receive
+   */
+  public getInputQuote(amountOut: TokenAmount): PairQuote {
     invariant(this.involvesToken(amountOut.token), 'TOKEN')
 
     const isMatch: Boolean = amountOut.token.equals(this.token1) // Standardize with router
@@ -353,6 +538,8 @@ export class Pair {
 
     let term: JSBI = ZERO
     let amountInFirstTrade: JSBI = ZERO
+    let isTwoPhase = false
+    let boost = 1
     let amountOutJSBI: JSBI = amountOut.raw
 
     if (
@@ -364,10 +551,13 @@ export class Pair {
 
     if (this.isXybk) {
       if (JSBI.greaterThanOrEqual(reserveOutJSBI, JSBI.add(amountOut.raw, this.sqrtK))) {
-        term = this.artiLiquidityTerm(isMatch ? this.boost1 : this.boost0)
+        boost = isMatch ? this.boost1 : this.boost0
+        term = this.artiLiquidityTerm(boost)
       } else {
-        term = this.artiLiquidityTerm(isMatch ? this.boost0 : this.boost1)
+        boost = isMatch ? this.boost0 : this.boost1
+        term = this.artiLiquidityTerm(boost)
         if (this.boost0 !== this.boost1 && JSBI.greaterThan(reserveOutJSBI, this.sqrtK)) {
+          isTwoPhase = true
           amountInFirstTrade = JSBI.multiply(JSBI.subtract(this.sqrtK, reserveInJSBI), _10000)
           amountOutJSBI = JSBI.subtract(amountOutJSBI, JSBI.subtract(reserveOutJSBI, this.sqrtK))
           reserveInJSBI = this.sqrtK
@@ -378,6 +568,10 @@ export class Pair {
 
     const numerator = JSBI.multiply(JSBI.add(reserveInJSBI, term), JSBI.multiply(amountOutJSBI, _10000))
     const denominator = JSBI.subtract(JSBI.add(reserveOutJSBI, term), amountOutJSBI)
+    // draining the whole reserve of a pair without artificial liquidity takes an infinite input
+    if (JSBI.equal(denominator, ZERO)) {
+      throw new InsufficientReservesError()
+    }
 
     const inputAmount = new TokenAmount(
       isMatch ? this.token0 : this.token1,
@@ -387,20 +581,178 @@ export class Pair {
       )
     )
 
-    return [
+    const legs: SwapLeg[] = isTwoPhase
+      ? this.twoPhaseLegs(inputAmount, amountOut, boost)
+      : [{ inputAmount, outputAmount: amountOut, boost }]
+
+    return {
       inputAmount,
-      new Pair(
-        reserveIn.add(inputAmount),
-        reserveOut.subtract(amountOut),
-        this.isXybk,
-        this.fee,
-        this.boost0,
-        this.boost1,
-        this.tradeState
-      )
+      outputAmount: amountOut,
+      uncappedOutputAmount: amountOut,
+      feeAmount: new TokenAmount(
+        inputAmount.token,
+        JSBI.divide(JSBI.multiply(inputAmount.raw, JSBI.BigInt(this.fee)), _10000)
+      ),
+      nextPair: this.withReserves(reserveIn.add(inputAmount), reserveOut.subtract(amountOut)),
+      isTwoPhase,
+      legs,
+      crossoverPrice: isTwoPhase ? new Price(inputAmount.token, amountOut.token, ONE, ONE) : undefined
+    }
+  }
+
+  /**
+   * Splits a two phase swap at the balance point, where both reserves equal sqrtK, into the leg up to it and the leg
+   * after it. The input of the first leg is rounded up so that it covers its fee.
+   * @param amountIn the whole amount swapped in
+   * @param amountOut the whole amount received
+   * @param boost the boost the swap is priced at after the balance point
+   */
+  private twoPhaseLegs(amountIn: TokenAmount, amountOut: TokenAmount, boost: number): [SwapLeg, SwapLeg] {
+    const feeDivisor = JSBI.BigInt(10000 - this.fee)
+    const firstAmountInPostFee = JSBI.multiply(JSBI.subtract(this.sqrtK, this.reserveOf(amountIn.token).raw), _10000)
+    const firstInputAmount = new TokenAmount(
+      amountIn.token,
+      JSBI.divide(JSBI.add(firstAmountInPostFee, JSBI.subtract(feeDivisor, ONE)), feeDivisor)
+    )
+    const firstOutputAmount = new TokenAmount(
+      amountOut.token,
+      JSBI.subtract(this.reserveOf(amountOut.token).raw, this.sqrtK)
+    )
+    return [
+      {
+        inputAmount: firstInputAmount,
+        outputAmount: firstOutputAmount,
+        boost: boost === this.boost0 ? this.boost1 : this.boost0
+      },
+      { inputAmount: amountIn.subtract(firstInputAmount), outputAmount: amountOut.subtract(firstOutputAmount), boost }
     ]
   }
 
+  /**
+   * Returns the least exact input amount that moves the instantaneous price of token0 in token1 to the given price,
+   * following the curve of the pair including the boost switch of xybk pairs, and the pair after the swap. Token0 is
+   * swapped in if its price has to fall and token1 if it has to rise. Returns a zero amount if the pair is already at
+   * the price.
+   * @param price the target price of either token of the pair in the other
+   */
+  public getInputAmountForPrice(price: Price): [TokenAmount, Pair] {
+    return this.getInputAmountToReach(price, pair => pair.token0Price)
+  }
+
+  /**
+   * Returns the least exact input amount that moves the ratio of reserve1 to reserve0 to the given ratio, and the pair
+   * after the swap. Returns a zero amount if the pair is already at the ratio.
+   * @param ratio the target ratio, as the price of either token of the pair in the other
+   */
+  public getInputAmountForReserveRatio(ratio: Price): [TokenAmount, Pair] {
+    return this.getInputAmountToReach(ratio, pair => pair.token0LpPrice)
+  }
+
+  private getInputAmountToReach(target: Price, priceOf: (pair: Pair) => Price): [TokenAmount, Pair] {
+    const { baseCurrency, quoteCurrency } = target
+    invariant(
+      baseCurrency instanceof Token &&
+        quoteCurrency instanceof Token &&
+        this.involvesToken(baseCurrency) &&
+        this.involvesToken(quoteCurrency) &&
+        !baseCurrency.equals(quoteCurrency),
+      'TOKEN'
+    )
+    invariant(JSBI.greaterThan(target.numerator, ZERO) && JSBI.greaterThan(target.denominator, ZERO), 'PRICE')
+    const targetPrice = baseCurrency.equals(this.token0) ? target.raw : target.raw.invert()
+    const price = priceOf(this).raw
+    if (price.equalTo(targetPrice)) {
+      return [new TokenAmount(this.token0, ZERO), this]
+    }
+
+    // swapping in token0 lowers its price and swapping in token1 raises it
+    const tokenIn = price.greaterThan(targetPrice) ? this.token0 : this.token1
+    const reach = (amount: JSBI): Pair | undefined => {
+      let nextPair: Pair
+      try {
+        ;[, , nextPair] = this.getOutputAmount(new TokenAmount(tokenIn, amount))
+      } catch (error) {
+        if (error.isInsufficientInputAmountError) return undefined
+        throw error
+      }
+      const nextPrice = priceOf(nextPair).raw
+      const reached = tokenIn.equals(this.token0)
+        ? !nextPrice.greaterThan(targetPrice)
+        : !nextPrice.lessThan(targetPrice)
+      return reached ? nextPair : undefined
+    }
+
+    // double the amount until it moves the price to the target, then bisect for the least amount that does
+    let low = ZERO
+    let high = JSBI.greaterThan(this.reserveOf(tokenIn).raw, ZERO) ? this.reserveOf(tokenIn).raw : ONE
+    let nextPair = reach(high)
+    while (nextPair === undefined) {
+      low = high
+      high = JSBI.multiply(high, TWO)
+      invariant(JSBI.lessThanOrEqual(high, MAX_SWAP_AMOUNT), 'PRICE')
+      nextPair = reach(high)
+    }
+    while (JSBI.greaterThan(JSBI.subtract(high, low), ONE)) {
+      const middle = JSBI.divide(JSBI.add(low, high), TWO)
+      const middlePair = reach(middle)
+      if (middlePair === undefined) {
+        low = middle
+      } else {
+        high = middle
+        nextPair = middlePair
+      }
+    }
+    return [new TokenAmount(tokenIn, high), nextPair]
+  }
+
+  /**
+   * Returns how much of the given amount to swap through the pair so that the rest of it and the swap output are in
+   * the ratio of the reserves after the swap, i.e. can be added as liquidity with as little as possible left over.
+   * Also returns the swap output and the pair after the swap.
+   * @param amountIn the amount of one of the pair's tokens to add as liquidity
+   */
+  public getZapInAmount(amountIn: TokenAmount): [TokenAmount, TokenAmount, Pair] {
+    invariant(this.involvesToken(amountIn.token), 'TOKEN')
+    const tokenOut = amountIn.token.equals(this.token0) ? this.token1 : this.token0
+
+    // the remaining input shrinks and the output grows with the amount swapped, so find the largest swap amount that
+    // still leaves at least enough input to pair with the output
+    let best: [TokenAmount, TokenAmount, Pair] | undefined
+    let low = ONE
+    let high = JSBI.subtract(amountIn.raw, ONE)
+    while (JSBI.lessThanOrEqual(low, high)) {
+      const middle = JSBI.divide(JSBI.add(low, high), TWO)
+      const swapAmount = new TokenAmount(amountIn.token, middle)
+      let amountOut: TokenAmount, nextPair: Pair
+      try {
+        ;[amountOut, , nextPair] = this.getOutputAmount(swapAmount)
+      } catch (error) {
+        if (error.isInsufficientInputAmountError) {
+          low = JSBI.add(middle, ONE)
+          continue
+        }
+        throw error
+      }
+
+      if (
+        JSBI.greaterThanOrEqual(
+          JSBI.multiply(JSBI.subtract(amountIn.raw, middle), nextPair.reserveOf(tokenOut).raw),
+          JSBI.multiply(amountOut.raw, nextPair.reserveOf(amountIn.token).raw)
+        )
+      ) {
+        best = [swapAmount, amountOut, nextPair]
+        low = JSBI.add(middle, ONE)
+      } else {
+        high = JSBI.subtract(middle, ONE)
+      }
+    }
+
+    if (best === undefined) {
+      throw new InsufficientInputAmountError()
+    }
+    return best
+  }
+
   /*
    * Unchanged from pancake/uni
    */
@@ -0,0 +1,224 @@
+import invariant from 'tiny-invariant'
+import JSBI from 'jsbi'
+
+import { ChainId, TradeType, WrapType, ZERO, _10000 } from '../constants'
+import { sortedInsert } from '../utils'
+import { Currency } from './currency'
+import { CurrencyAmount } from './fractions/currencyAmount'
+import { TokenAmount } from './fractions/tokenAmount'
+import { Pair } from './pair'
+import { PoolRegistry } from './poolRegistry'
+import { getWrapType, Route } from './route'
+import { Token } from './token'
+import { BestTradeOptions, Trade, tradeComparator, wrappedAmount, wrappedCurrency } from './trade'
+
+/**
+ * Indexes a list of pairs by the tokens they contain, so the best trades between two tokens can be found without
+ * scanning every pair at every hop. A graph of a `PoolRegistry` uses the registry's own index instead, and always
+ * reflects the latest state of its pools.
+ */
+export class PairGraph {
+  private readonly registry?: PoolRegistry
+  private readonly pairList: Pair[] = []
+  // pairs containing each token, keyed by token address and kept in the order of `pairs`
+  private readonly adjacency: { [tokenAddress: string]: Pair[] } = {}
+
+  /**
+   * Constructs a graph of the given pairs
+   * @param pairs the pairs, or a registry holding them
+   */
+  public constructor(pairs: Pair[] | PoolRegistry) {
+    if (pairs instanceof PoolRegistry) {
+      this.registry = pairs
+      return
+    }
+    invariant(
+      pairs.every(pair => pair.chainId === pairs[0].chainId),
+      'CHAIN_IDS'
+    )
+    this.pairList = pairs
+    for (const pair of pairs) {
+      for (const token of [pair.token0, pair.token1]) {
+        ;(this.adjacency[token.address] = this.adjacency[token.address] ?? []).push(pair)
+      }
+    }
+  }
+
+  /**
+   * The pairs in the graph, in the order they were given.
+   */
+  public get pairs(): Pair[] {
+    return this.registry?.pairs ?? this.pairList
+  }
+
+  /**
+   * Returns the pairs containing the given token
+   * @param token token to return the pairs of
+   */
+  public pairsOf(token: Token): Pair[] {
+    return this.registry?.pairsOf(token) ?? this.adjacency[token.address] ?? []
+  }
+
+  /**
+   * Returns the least number of hops from the given token to every token reachable within `maxHops` hops
+   */
+  private distancesFrom(token: Token, maxHops: number): { [tokenAddress: string]: number } {
+    const distances: { [tokenAddress: string]: number } = { [token.address]: 0 }
+    let frontier: Token[] = [token]
+    for (let hops = 1; hops <= maxHops && frontier.length > 0; hops++) {
+      const next: Token[] = []
+      for (const current of frontier) {
+        for (const pair of this.pairsOf(current)) {
+          const other = pair.token0.equals(current) ? pair.token1 : pair.token0
+          if (distances[other.address] === undefined) {
+            distances[other.address] = hops
+            next.push(other)
+          }
+        }
+      }
+      frontier = next
+    }
+    return distances
+  }
+
+  /**
+   * Returns the same trades as `Trade.bestTradeExactIn` would for the pairs in the graph, ranked by `tradeComparator`.
+   * Only the pairs of the current token are considered at each hop, and a hop is skipped when the output token cannot
+   * be reached from its far side within the remaining hops. Pairs that do not support trading in the direction of
+   * the hop are skipped rather than thrown on.
+   * @param currencyAmountIn exact amount of input currency to spend
+   * @param currencyOut the desired currency out
+   * @param amountDeviation the amount of deviation in basis points between max output amount and reserves of the pool. if within deviation, its a valid Trade to return
+   * @param maxNumResults maximum number of results to return
+   * @param maxHops maximum number of hops a returned trade can make, e.g. 1 hop goes through a single pair
+   */
+  public bestTradeExactIn(
+    currencyAmountIn: CurrencyAmount,
+    currencyOut: Currency,
+    amountDeviation: number,
+    { maxNumResults = 3, maxHops = 3 }: BestTradeOptions = {}
+  ): Trade[] {
+    // wrapping or unwrapping is always the only, and best, trade
+    if (getWrapType(currencyAmountIn.currency, currencyOut) !== WrapType.NOT_APPLICABLE) {
+      return [Trade.exactIn(new Route([], currencyAmountIn.currency, currencyOut), currencyAmountIn)]
+    }
+    invariant(this.pairs.length > 0, 'PAIRS')
+    invariant(maxHops > 0, 'MAX_HOPS')
+    const chainId: ChainId = this.pairs[0].chainId
+    const tokenOut = wrappedCurrency(currencyOut, chainId)
+    const distances = this.distancesFrom(tokenOut, maxHops)
+    const bestTrades: Trade[] = []
+
+    const search = (amountIn: TokenAmount, currentPairs: Pair[], hopsLeft: number): void => {
+      for (const pair of this.pairsOf(amountIn.token)) {
+        if (currentPairs.indexOf(pair) !== -1) continue
+        if (pair.reserve0.equalTo(ZERO) && pair.reserve1.equalTo(ZERO)) continue
+
+        // the output token is out of reach through this pair
+        const distance = distances[(pair.token0.equals(amountIn.token) ? pair.token1 : pair.token0).address]
+        if (distance === undefined || distance > hopsLeft - 1) continue
+
+        let amountOut: TokenAmount, optimalAmountOut: TokenAmount
+        try {
+          ;[amountOut, optimalAmountOut] = pair.getOutputAmount(amountIn)
+        } catch (error) {
+          // input too low, or trading this way is paused
+          if (error.isInsufficientInputAmountError || error.isTradeNotSupportedError) {
+            continue
+          }
+          throw error
+        }
+
+        const rawOptimalAmountOut = optimalAmountOut.raw
+        const amountOutWithSlippage = JSBI.subtract(
+          rawOptimalAmountOut,
+          JSBI.divide(JSBI.multiply(rawOptimalAmountOut, JSBI.BigInt(amountDeviation)), _10000)
+        )
+        if (JSBI.greaterThan(amountOutWithSlippage, amountOut.raw)) continue
+
+        if (amountOut.token.equals(tokenOut)) {
+          sortedInsert(
+            bestTrades,
+            new Trade(
+              new Route([...currentPairs, pair], currencyAmountIn.currency, currencyOut),
+              currencyAmountIn,
+              TradeType.EXACT_INPUT
+            ),
+            maxNumResults,
+            tradeComparator
+          )
+        } else if (hopsLeft > 1) {
+          search(amountOut, [...currentPairs, pair], hopsLeft - 1)
+        }
+      }
+    }
+
+    search(wrappedAmount(currencyAmountIn, chainId), [], maxHops)
+    return bestTrades
+  }
+
+  /**
+   * Similar to the above method but instead targets a fixed output amount, returning the same trades as
+   * `Trade.bestTradeExactOut` would for the pairs in the graph.
+   * @param currencyIn the currency to spend
+   * @param currencyAmountOut the exact amount of currency out
+   * @param maxNumResults maximum number of results to return
+   * @param maxHops maximum number of hops a returned trade can make, e.g. 1 hop goes through a single pair
+   */
+  public bestTradeExactOut(
+    currencyIn: Currency,
+    currencyAmountOut: CurrencyAmount,
+    { maxNumResults = 3, maxHops = 3 }: BestTradeOptions = {}
+  ): Trade[] {
+    // wrapping or unwrapping is always the only, and best, trade
+    if (getWrapType(currencyIn, currencyAmountOut.currency) !== WrapType.NOT_APPLICABLE) {
+      return [Trade.exactOut(new Route([], currencyIn, currencyAmountOut.currency), currencyAmountOut)]
+    }
+    invariant(this.pairs.length > 0, 'PAIRS')
+    invariant(maxHops > 0, 'MAX_HOPS')
+    const chainId: ChainId = this.pairs[0].chainId
+    const tokenIn = wrappedCurrency(currencyIn, chainId)
+    const distances = this.distancesFrom(tokenIn, maxHops)
+    const bestTrades: Trade[] = []
+
+    const search = (amountOut: TokenAmount, currentPairs: Pair[], hopsLeft: number): void => {
+      for (const pair of this.pairsOf(amountOut.token)) {
+        if (currentPairs.indexOf(pair) !== -1) continue
+        if (pair.reserve0.equalTo(ZERO) && pair.reserve1.equalTo(ZERO)) continue
+
+        // the input token is out of reach through this pair
+        const distance = distances[(pair.token0.equals(amountOut.token) ? pair.token1 : pair.token0).address]
+        if (distance === undefined || distance > hopsLeft - 1) continue
+
+        let amountIn: TokenAmount
+        try {
+          ;[amountIn] = pair.getInputAmount(amountOut)
+        } catch (error) {
+          // not enough liquidity in this pair, or trading this way is paused
+          if (error.isInsufficientReservesError || error.isTradeNotSupportedError) {
+            continue
+          }
+          throw error
+        }
+
+        if (amountIn.token.equals(tokenIn)) {
+          sortedInsert(
+            bestTrades,
+            new Trade(
+              new Route([pair, ...currentPairs], currencyIn, currencyAmountOut.currency),
+              currencyAmountOut,
+              TradeType.EXACT_OUTPUT
+            ),
+            maxNumResults,
+            tradeComparator
+          )
+        } else if (hopsLeft > 1) {
+          search(amountIn, [pair, ...currentPairs], hopsLeft - 1)
+        }
+      }
+    }
+
+    search(wrappedAmount(currencyAmountOut, chainId), [], maxHops)
+    return bestTrades
+  }
+}
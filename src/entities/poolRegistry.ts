@@ -0,0 +1,194 @@
+import invariant from 'tiny-invariant'
+
+import { Pair } from './pair'
+import { Token } from './token'
+
+/**
+ * A change of a pool in a `PoolRegistry`.
+ */
+export interface PoolChange {
+  /**
+   * Address of the pool.
+   */
+  address: string
+  /**
+   * The pool after the change, undefined if a rollback removed it.
+   */
+  pair?: Pair
+  /**
+   * The pool before the change, undefined if the change added it.
+   */
+  previous?: Pair
+  /**
+   * The block of the update, or the block rolled back to.
+   */
+  blockNumber: number
+}
+
+export type PoolListener = (change: PoolChange) => void
+
+// the state a pool had before an update, so the update can be undone
+interface HistoryEntry {
+  blockNumber: number
+  address: string
+  previous?: Pair
+}
+
+/**
+ * Holds the latest state of a set of pools, keyed by address and indexed by token, as block tagged updates come in.
+ * Keeps the updates of the last `maxHistory` blocks so they can be rolled back when the chain reorganizes, and notifies
+ * subscribers of every change. Can be passed to the route finders in place of a list of pairs.
+ */
+export class PoolRegistry {
+  /**
+   * The number of blocks back the registry can roll back to.
+   */
+  public readonly maxHistory: number
+
+  private readonly pools: { [address: string]: Pair } = {}
+  // addresses of the pools containing each token, keyed by token address
+  private readonly index: { [tokenAddress: string]: string[] } = {}
+  private readonly listeners: PoolListener[] = []
+  private history: HistoryEntry[] = []
+  private latestBlock?: number
+  // the latest block whose updates are no longer in the history
+  private prunedBlock?: number
+  private pairsSnapshot?: Pair[]
+
+  /**
+   * Constructs a registry of the given pools
+   * @param pairs the pools to start with, which cannot be rolled back
+   * @param maxHistory the number of blocks back the registry can roll back to
+   */
+  public constructor(pairs: Pair[] = [], maxHistory: number = 64) {
+    invariant(maxHistory >= 0, 'MAX_HISTORY')
+    this.maxHistory = maxHistory
+    for (const pair of pairs) {
+      this.set(pair.liquidityToken.address, pair)
+    }
+  }
+
+  /**
+   * The latest block an update was applied at, undefined if none was.
+   */
+  public get blockNumber(): number | undefined {
+    return this.latestBlock
+  }
+
+  /**
+   * The pools in the registry, in the order they were first added.
+   */
+  public get pairs(): Pair[] {
+    if (this.pairsSnapshot === undefined) {
+      this.pairsSnapshot = Object.keys(this.pools).map(address => this.pools[address])
+    }
+    return this.pairsSnapshot
+  }
+
+  /**
+   * Returns the pool at the given address, undefined if the registry does not hold it
+   * @param address address of the pool
+   */
+  public getPair(address: string): Pair | undefined {
+    return this.pools[address]
+  }
+
+  /**
+   * Returns the pools containing the given token
+   * @param token token to return the pools of
+   */
+  public pairsOf(token: Token): Pair[] {
+    return (this.index[token.address] ?? []).map(address => this.pools[address])
+  }
+
+  /**
+   * Sets the pools to their state at the given block, adding those the registry does not hold yet. Updates must come in
+   * block order, and several updates may share a block.
+   * @param blockNumber the block the pools are at
+   * @param pairs the pools as of the block
+   */
+  public update(blockNumber: number, pairs: Pair[]): void {
+    invariant(this.latestBlock === undefined || blockNumber >= this.latestBlock, 'BLOCK_NUMBER')
+    this.latestBlock = blockNumber
+    for (const pair of pairs) {
+      const address = pair.liquidityToken.address
+      const previous = this.pools[address]
+      if (previous === pair) continue
+      this.history.push({ blockNumber, address, previous })
+      this.set(address, pair)
+      this.notify({ address, pair, previous, blockNumber })
+    }
+    this.prune()
+  }
+
+  /**
+   * Undoes the updates of the blocks after the given block, e.g. when those blocks were reorganized out of the chain.
+   * Pools those updates added are removed.
+   * @param blockNumber the last block to keep the updates of
+   */
+  public rollback(blockNumber: number): void {
+    invariant(this.prunedBlock === undefined || blockNumber >= this.prunedBlock, 'HISTORY')
+    while (this.history.length > 0 && this.history[this.history.length - 1].blockNumber > blockNumber) {
+      const { address, previous } = this.history.pop() as HistoryEntry
+      const pair = this.pools[address]
+      if (previous === undefined) {
+        this.remove(address)
+      } else {
+        this.set(address, previous)
+      }
+      this.notify({ address, pair: previous, previous: pair, blockNumber })
+    }
+    if (this.latestBlock !== undefined && this.latestBlock > blockNumber) {
+      this.latestBlock = blockNumber
+    }
+  }
+
+  /**
+   * Calls the listener with every change of a pool, until the returned function is called
+   * @param listener called after each change
+   */
+  public subscribe(listener: PoolListener): () => void {
+    this.listeners.push(listener)
+    return () => {
+      const index = this.listeners.indexOf(listener)
+      if (index !== -1) this.listeners.splice(index, 1)
+    }
+  }
+
+  private set(address: string, pair: Pair): void {
+    if (this.pools[address] === undefined) {
+      for (const token of [pair.token0, pair.token1]) {
+        ;(this.index[token.address] = this.index[token.address] ?? []).push(address)
+      }
+    }
+    this.pools[address] = pair
+    this.pairsSnapshot = undefined
+  }
+
+  private remove(address: string): void {
+    const pair = this.pools[address]
+    for (const token of [pair.token0, pair.token1]) {
+      this.index[token.address] = this.index[token.address].filter(other => other !== address)
+    }
+    delete this.pools[address]
+    this.pairsSnapshot = undefined
+  }
+
+  // forgets the updates too old to roll back
+  private prune(): void {
+    if (this.latestBlock === undefined) return
+    const oldest = this.latestBlock - this.maxHistory
+    let count = 0
+    while (count < this.history.length && this.history[count].blockNumber <= oldest) count++
+    if (count > 0) {
+      this.prunedBlock = this.history[count - 1].blockNumber
+      this.history = this.history.slice(count)
+    }
+  }
+
+  private notify(change: PoolChange): void {
+    for (const listener of [...this.listeners]) {
+      listener(change)
+    }
+  }
+}
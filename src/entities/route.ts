@@ -1,11 +1,28 @@
-import { ChainId } from '../constants'
+import { ChainId, WrapType } from '../constants'
 import invariant from 'tiny-invariant'
 
-import { Currency, ETHER } from './currency'
-import { Token, WETH } from './token'
+import { getDeployment } from '../deployments'
+import { Currency } from './currency'
+import { currencyEquals, Token } from './token'
 import { Pair } from './pair'
 import { Price } from './fractions/price'
 
+/**
+ * Returns whether going from the input currency to the output currency wraps or unwraps the native currency of their
+ * chain, i.e. is a 1:1 conversion that goes through no pairs
+ * @param input the input currency
+ * @param output the output currency
+ */
+export function getWrapType(input: Currency, output: Currency): WrapType {
+  const token = input instanceof Token ? input : output instanceof Token ? output : undefined
+  if (token === undefined || (input instanceof Token && output instanceof Token)) return WrapType.NOT_APPLICABLE
+  const { nativeCurrency, wrappedNative } = getDeployment(token.chainId)
+  if (!token.equals(wrappedNative)) return WrapType.NOT_APPLICABLE
+  if (currencyEquals(input, nativeCurrency)) return WrapType.WRAP
+  if (currencyEquals(output, nativeCurrency)) return WrapType.UNWRAP
+  return WrapType.NOT_APPLICABLE
+}
+
 export class Route {
   public readonly pairs: Pair[]
   public readonly path: Token[]
@@ -13,25 +30,43 @@ export class Route {
   public readonly output: Currency
   public readonly midPrice: Price
 
+  /**
+   * Constructs a route through the given pairs. A route through no pairs wraps or unwraps the native currency, and
+   * must go between the native currency and the wrapped native token of the same chain.
+   * @param pairs the pairs to go through, in order
+   * @param input the input currency
+   * @param output the output currency, defaults to the last token of the path
+   */
   public constructor(pairs: Pair[], input: Currency, output?: Currency) {
-    invariant(pairs.length > 0, 'PAIRS')
+    if (pairs.length === 0) {
+      invariant(output !== undefined && getWrapType(input, output) !== WrapType.NOT_APPLICABLE, 'PAIRS')
+      const wrappedNative = (input instanceof Token ? input : output) as Token
+      this.pairs = pairs
+      this.path = [wrappedNative]
+      this.input = input
+      this.output = output
+      this.midPrice = new Price(input, output, '1', '1')
+      return
+    }
+
     invariant(
       pairs.every(pair => pair.chainId === pairs[0].chainId),
       'CHAIN_IDS'
     )
+    const { nativeCurrency, wrappedNative } = getDeployment(pairs[0].chainId)
     invariant(
       (input instanceof Token && pairs[0].involvesToken(input)) ||
-        (input === ETHER && pairs[0].involvesToken(WETH[pairs[0].chainId])),
+        (currencyEquals(input, nativeCurrency) && pairs[0].involvesToken(wrappedNative)),
       'INPUT'
     )
     invariant(
       typeof output === 'undefined' ||
         (output instanceof Token && pairs[pairs.length - 1].involvesToken(output)) ||
-        (output === ETHER && pairs[pairs.length - 1].involvesToken(WETH[pairs[0].chainId])),
+        (currencyEquals(output, nativeCurrency) && pairs[pairs.length - 1].involvesToken(wrappedNative)),
       'OUTPUT'
     )
 
-    const path: Token[] = [input instanceof Token ? input : WETH[pairs[0].chainId]]
+    const path: Token[] = [input instanceof Token ? input : wrappedNative]
     for (const [i, pair] of pairs.entries()) {
       const currentInput = path[i]
       invariant(currentInput.equals(pair.token0) || currentInput.equals(pair.token1), 'PATH')
@@ -47,6 +82,13 @@ export class Route {
   }
 
   public get chainId(): ChainId {
-    return this.pairs[0].chainId
+    return this.path[0].chainId
+  }
+
+  /**
+   * Whether the route wraps or unwraps the native currency instead of going through pairs
+   */
+  public get wrapType(): WrapType {
+    return this.pairs.length === 0 ? getWrapType(this.input, this.output) : WrapType.NOT_APPLICABLE
   }
 }
@@ -0,0 +1,285 @@
+import invariant from 'tiny-invariant'
+import JSBI from 'jsbi'
+
+import { ONE, TradeType, ZERO } from '../constants'
+import { CurrencyAmount } from './fractions/currencyAmount'
+import { Fraction } from './fractions/fraction'
+import { Percent } from './fractions/percent'
+import { Price } from './fractions/price'
+import { TokenAmount } from './fractions/tokenAmount'
+import { Route } from './route'
+import { currencyEquals } from './token'
+import { Trade } from './trade'
+
+export interface BestSplitOptions {
+  // how many equal parts the amount is divided into when searching for the best split
+  numParts?: number
+}
+
+/**
+ * Returns a currency amount of the same currency as the given amount, with the given raw value
+ */
+function amountWithRaw(currencyAmount: CurrencyAmount, raw: JSBI): CurrencyAmount {
+  return currencyAmount instanceof TokenAmount
+    ? new TokenAmount(currencyAmount.token, raw)
+    : CurrencyAmount.native(currencyAmount.currency, raw)
+}
+
+/**
+ * Returns the trade of the given amount along the route, or undefined if the route cannot fill it
+ */
+function tryTrade(route: Route, amount: CurrencyAmount, tradeType: TradeType): Trade | undefined {
+  try {
+    return new Trade(route, amount, tradeType)
+  } catch (error) {
+    if (error.isInsufficientInputAmountError || error.isInsufficientReservesError || error.isTradeNotSupportedError) {
+      return undefined
+    }
+    throw error
+  }
+}
+
+/**
+ * Returns the routes that share no pair with an earlier route, in their order
+ */
+function disjointRoutes(routes: Route[]): Route[] {
+  const used = new Set<string>()
+  return routes.filter(route => {
+    const addresses = route.pairs.map(pair => pair.liquidityToken.address)
+    if (addresses.some(address => used.has(address))) return false
+    addresses.forEach(address => used.add(address))
+    return true
+  })
+}
+
+/**
+ * Represents a trade whose amount is split across several routes between the same input and output currencies.
+ * Each route is executed as its own swap, so the routes must not share any pair.
+ */
+export class SplitTrade {
+  /**
+   * The trade executed along each route, in the order of the routes.
+   */
+  public readonly trades: Trade[]
+  /**
+   * The share of the exact amount sent along each route.
+   */
+  public readonly percents: Percent[]
+  /**
+   * The type of the trade, either exact in or exact out.
+   */
+  public readonly tradeType: TradeType
+  /**
+   * The total input amount across all routes, assuming no slippage.
+   */
+  public readonly inputAmount: CurrencyAmount
+  /**
+   * The total output amount across all routes, assuming no slippage.
+   */
+  public readonly outputAmount: CurrencyAmount
+  /**
+   * The combined price expressed in terms of output amount/input amount.
+   */
+  public readonly executionPrice: Price
+  /**
+   * The percent difference between the output at each route's mid price and the combined output.
+   */
+  public readonly priceImpact: Percent
+
+  /**
+   * Constructs an exact in trade that splits the amount in across the routes
+   * @param routes routes the amount in is split across
+   * @param amountIn the amount being passed in
+   * @param percents share of the amount in sent along each route
+   */
+  public static exactIn(routes: Route[], amountIn: CurrencyAmount, percents: Percent[]): SplitTrade {
+    return new SplitTrade(routes, amountIn, percents, TradeType.EXACT_INPUT)
+  }
+
+  /**
+   * Constructs an exact out trade that splits the amount out across the routes
+   * @param routes routes the amount out is split across
+   * @param amountOut the amount returned by the trade
+   * @param percents share of the amount out received from each route
+   */
+  public static exactOut(routes: Route[], amountOut: CurrencyAmount, percents: Percent[]): SplitTrade {
+    return new SplitTrade(routes, amountOut, percents, TradeType.EXACT_OUTPUT)
+  }
+
+  public constructor(routes: Route[], amount: CurrencyAmount, percents: Percent[], tradeType: TradeType) {
+    invariant(routes.length > 0, 'ROUTES')
+    invariant(routes.length === percents.length, 'PERCENTS')
+    invariant(
+      routes.every(
+        route => currencyEquals(route.input, routes[0].input) && currencyEquals(route.output, routes[0].output)
+      ),
+      'ROUTE_CURRENCIES'
+    )
+    const pairAddresses = routes.reduce<string[]>(
+      (addresses, route) => addresses.concat(route.pairs.map(pair => pair.liquidityToken.address)),
+      []
+    )
+    invariant(new Set(pairAddresses).size === pairAddresses.length, 'OVERLAPPING_ROUTES')
+    invariant(
+      percents.every(percent => percent.greaterThan(ZERO)),
+      'PERCENT'
+    )
+    invariant(
+      percents.reduce<Fraction>((total, percent) => total.add(percent), new Fraction(ZERO)).equalTo(ONE),
+      'PERCENTS_SUM'
+    )
+
+    // every route but the last gets its rounded down share, the last one receives the remainder
+    let remaining = amount.raw
+    this.trades = routes.map((route, i) => {
+      const raw = i === routes.length - 1 ? remaining : percents[i].multiply(amount.raw).quotient
+      remaining = JSBI.subtract(remaining, raw)
+      return new Trade(route, amountWithRaw(amount, raw), tradeType)
+    })
+    this.percents = percents
+    this.tradeType = tradeType
+    this.inputAmount = this.trades
+      .slice(1)
+      .reduce((total, trade) => total.add(trade.inputAmount), this.trades[0].inputAmount)
+    this.outputAmount = this.trades
+      .slice(1)
+      .reduce((total, trade) => total.add(trade.outputAmount), this.trades[0].outputAmount)
+    this.executionPrice = new Price(
+      this.inputAmount.currency,
+      this.outputAmount.currency,
+      this.inputAmount.raw,
+      this.outputAmount.raw
+    )
+
+    // calculate slippage := (exactQuote - outputAmount) / exactQuote, where the exact quote sums each route's mid price
+    const exactQuote = this.trades.reduce<Fraction>(
+      (total, trade) => total.add(trade.route.midPrice.raw.multiply(trade.inputAmount.raw)),
+      new Fraction(ZERO)
+    )
+    const slippage = exactQuote.subtract(this.outputAmount.raw).divide(exactQuote)
+    this.priceImpact = new Percent(slippage.numerator, slippage.denominator)
+  }
+
+  /**
+   * The routes of the trade, in the order of the trades.
+   */
+  public get routes(): Route[] {
+    return this.trades.map(trade => trade.route)
+  }
+
+  /**
+   * Get the minimum amount that must be received from all routes for the given slippage tolerance
+   * @param slippageTolerance tolerance of unfavorable slippage from the execution price of each route
+   */
+  public minimumAmountOut(slippageTolerance: Percent): CurrencyAmount {
+    return this.trades
+      .slice(1)
+      .reduce(
+        (total, trade) => total.add(trade.minimumAmountOut(slippageTolerance)),
+        this.trades[0].minimumAmountOut(slippageTolerance)
+      )
+  }
+
+  /**
+   * Get the maximum amount in that can be spent across all routes for the given slippage tolerance
+   * @param slippageTolerance tolerance of unfavorable slippage from the execution price of each route
+   */
+  public maximumAmountIn(slippageTolerance: Percent): CurrencyAmount {
+    return this.trades
+      .slice(1)
+      .reduce(
+        (total, trade) => total.add(trade.maximumAmountIn(slippageTolerance)),
+        this.trades[0].maximumAmountIn(slippageTolerance)
+      )
+  }
+
+  /**
+   * Given a list of routes between the same currencies, and a fixed amount in, returns the split of the amount in
+   * across the routes that maximizes the total amount out. The amount in is divided into `numParts` equal parts and
+   * each part is sent along the route with the best marginal output, so the split is optimal up to the size of a part.
+   * Returns null if the routes cannot fill the amount in.
+   * @param routes the routes to consider, best first, e.g. as returned by `Trade.bestTradeExactIn`. Routes sharing a pair
+   * with an earlier route are skipped, since each route is executed as its own swap
+   * @param currencyAmountIn exact amount of input currency to spend
+   * @param numParts how many equal parts the amount in is divided into
+   */
+  public static bestSplitExactIn(
+    routes: Route[],
+    currencyAmountIn: CurrencyAmount,
+    { numParts = 20 }: BestSplitOptions = {}
+  ): SplitTrade | null {
+    return SplitTrade.bestSplit(routes, currencyAmountIn, TradeType.EXACT_INPUT, numParts)
+  }
+
+  /**
+   * Similar to the above method but instead targets a fixed output amount, splitting it across the routes so the
+   * total amount in is minimized.
+   * @param routes the routes to consider, best first, e.g. as returned by `Trade.bestTradeExactOut`. Routes sharing a
+   * pair with an earlier route are skipped, since each route is executed as its own swap
+   * @param currencyAmountOut the exact amount of currency out
+   * @param numParts how many equal parts the amount out is divided into
+   */
+  public static bestSplitExactOut(
+    routes: Route[],
+    currencyAmountOut: CurrencyAmount,
+    { numParts = 20 }: BestSplitOptions = {}
+  ): SplitTrade | null {
+    return SplitTrade.bestSplit(routes, currencyAmountOut, TradeType.EXACT_OUTPUT, numParts)
+  }
+
+  private static bestSplit(
+    candidateRoutes: Route[],
+    amount: CurrencyAmount,
+    tradeType: TradeType,
+    numParts: number
+  ): SplitTrade | null {
+    invariant(candidateRoutes.length > 0, 'ROUTES')
+    invariant(Number.isInteger(numParts) && numParts > 0, 'NUM_PARTS')
+    invariant(JSBI.greaterThan(amount.raw, ZERO), 'AMOUNT')
+    const routes = disjointRoutes(candidateRoutes)
+
+    const part = JSBI.divide(amount.raw, JSBI.BigInt(numParts))
+    const allocations: JSBI[] = routes.map(() => ZERO)
+    // the amount on the other side of each route's current allocation, i.e. output for exact in and input for exact out
+    const quotes: JSBI[] = routes.map(() => ZERO)
+
+    for (let i = 0; i < numParts; i++) {
+      // the last part also carries the remainder of the division
+      const size = i === numParts - 1 ? JSBI.subtract(amount.raw, JSBI.multiply(part, JSBI.BigInt(i))) : part
+      if (JSBI.equal(size, ZERO)) continue
+
+      let bestIndex = -1
+      let bestQuote: JSBI = ZERO
+      let bestMarginal: JSBI = ZERO
+      for (let j = 0; j < routes.length; j++) {
+        const trade = tryTrade(routes[j], amountWithRaw(amount, JSBI.add(allocations[j], size)), tradeType)
+        if (!trade) continue
+        const quote = tradeType === TradeType.EXACT_INPUT ? trade.outputAmount.raw : trade.inputAmount.raw
+        const marginal = JSBI.subtract(quote, quotes[j])
+        // exact in prefers the most additional output, exact out the least additional input
+        const isBetter =
+          bestIndex === -1 ||
+          (tradeType === TradeType.EXACT_INPUT
+            ? JSBI.greaterThan(marginal, bestMarginal)
+            : JSBI.lessThan(marginal, bestMarginal))
+        if (isBetter) {
+          bestIndex = j
+          bestQuote = quote
+          bestMarginal = marginal
+        }
+      }
+      if (bestIndex === -1) return null
+
+      allocations[bestIndex] = JSBI.add(allocations[bestIndex], size)
+      quotes[bestIndex] = bestQuote
+    }
+
+    const used = routes.map((_, i) => i).filter(i => JSBI.greaterThan(allocations[i], ZERO))
+    return new SplitTrade(
+      used.map(i => routes[i]),
+      amount,
+      used.map(i => new Percent(allocations[i], amount.raw)),
+      tradeType
+    )
+  }
+}
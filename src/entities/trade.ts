@@ -1,16 +1,18 @@
 import invariant from 'tiny-invariant'
 
-import { ChainId, ONE, TradeType, ZERO, _10000 } from '../constants'
+import { ChainId, ONE, TradeType, WrapType, ZERO, _10000 } from '../constants'
+import { getDeployment } from '../deployments'
 import { sortedInsert } from '../utils'
-import { Currency, ETHER } from './currency'
+import { Currency } from './currency'
 import { CurrencyAmount } from './fractions/currencyAmount'
 import { Fraction } from './fractions/fraction'
 import { Percent } from './fractions/percent'
 import { Price } from './fractions/price'
 import { TokenAmount } from './fractions/tokenAmount'
 import { Pair } from './pair'
-import { Route } from './route'
-import { currencyEquals, Token, WETH } from './token'
+import { PoolRegistry } from './poolRegistry'
+import { getWrapType, Route } from './route'
+import { currencyEquals, Token } from './token'
 import JSBI from 'jsbi'
 
 /**
@@ -83,20 +85,34 @@ export interface BestTradeOptions {
   maxHops?: number
 }
 
+/**
+ * Returns the pairs to consider at a hop from the given token, i.e. the pairs left for a list of pairs, and the pools of
+ * the token not on the path yet for a registry
+ */
+function candidatePairs(pairs: Pair[] | PoolRegistry, token: Token, currentPairs: Pair[]): Pair[] {
+  return pairs instanceof PoolRegistry ? pairs.pairsOf(token).filter(pair => !currentPairs.includes(pair)) : pairs
+}
+
 /**
  * Given a currency amount and a chain ID, returns the equivalent representation as the token amount.
- * In other words, if the currency is ETHER, returns the WETH token amount for the given chain. Otherwise, returns
- * the input currency amount.
+ * In other words, if the currency is the native currency of the chain, returns the wrapped native token amount for the
+ * given chain. Otherwise, returns the input currency amount.
  */
-function wrappedAmount(currencyAmount: CurrencyAmount, chainId: ChainId): TokenAmount {
+export function wrappedAmount(currencyAmount: CurrencyAmount, chainId: ChainId): TokenAmount {
   if (currencyAmount instanceof TokenAmount) return currencyAmount
-  if (currencyAmount.currency === ETHER) return new TokenAmount(WETH[chainId], currencyAmount.raw)
+  const { nativeCurrency, wrappedNative } = getDeployment(chainId)
+  if (currencyEquals(currencyAmount.currency, nativeCurrency)) return new TokenAmount(wrappedNative, currencyAmount.raw)
   invariant(false, 'CURRENCY')
 }
 
-function wrappedCurrency(currency: Currency, chainId: ChainId): Token {
+/**
+ * Given a currency and a chain ID, returns the equivalent token, i.e. the wrapped native token for the given chain if
+ * the currency is the native currency of the chain
+ */
+export function wrappedCurrency(currency: Currency, chainId: ChainId): Token {
   if (currency instanceof Token) return currency
-  if (currency === ETHER) return WETH[chainId]
+  const { nativeCurrency, wrappedNative } = getDeployment(chainId)
+  if (currencyEquals(currency, nativeCurrency)) return wrappedNative
   invariant(false, 'CURRENCY')
 }
 
@@ -137,6 +153,10 @@ export class Trade {
    * The actual output amount possible based on balances in pairs
    */
   public readonly optimalAmountOut?: TokenAmount
+  /**
+   * The state of each pair of the route after the trade executes, in the order of the route.
+   */
+  public readonly nextPairs: Pair[]
 
   /**
    * Constructs an exact in trade with the given amount in and route
@@ -182,17 +202,18 @@ export class Trade {
 
     this.route = route
     this.tradeType = tradeType
+    this.nextPairs = nextPairs
     this.inputAmount =
       tradeType === TradeType.EXACT_INPUT
         ? amount
-        : route.input === ETHER
-        ? CurrencyAmount.ether(amounts[0].raw)
+        : !(route.input instanceof Token)
+        ? CurrencyAmount.native(route.input, amounts[0].raw)
         : amounts[0]
     this.outputAmount =
       tradeType === TradeType.EXACT_OUTPUT
         ? amount
-        : route.output === ETHER
-        ? CurrencyAmount.ether(amounts[amounts.length - 1].raw)
+        : !(route.output instanceof Token)
+        ? CurrencyAmount.native(route.output, amounts[amounts.length - 1].raw)
         : amounts[amounts.length - 1]
     this.executionPrice = new Price(
       this.inputAmount.currency,
@@ -200,10 +221,25 @@ export class Trade {
       this.inputAmount.raw,
       this.outputAmount.raw
     )
-    this.nextMidPrice = Price.fromRoute(new Route(nextPairs, route.input))
+    this.nextMidPrice = new Route(nextPairs, route.input, route.output).midPrice
     this.priceImpact = computePriceImpact(route.midPrice, this.inputAmount, this.outputAmount)
   }
 
+  /**
+   * Returns the given pairs with the pairs of the route replaced by their state after the trade executes, so further
+   * trades can be made against the resulting reserves. Pairs are matched by address.
+   * @param pairs the pairs to apply the trade to, which must include every pair of the route
+   */
+  public applyToPairs(pairs: Pair[]): Pair[] {
+    const result = [...pairs]
+    for (const nextPair of this.nextPairs) {
+      const index = result.findIndex(pair => pair.liquidityToken.equals(nextPair.liquidityToken))
+      invariant(index !== -1, 'PAIR')
+      result[index] = nextPair
+    }
+    return result
+  }
+
   /**
    * Get the minimum amount that must be received from this trade for the given slippage tolerance
    * @param slippageTolerance tolerance of unfavorable slippage from the execution price of this trade
@@ -219,7 +255,7 @@ export class Trade {
         .multiply(this.outputAmount.raw).quotient
       return this.outputAmount instanceof TokenAmount
         ? new TokenAmount(this.outputAmount.token, slippageAdjustedAmountOut)
-        : CurrencyAmount.ether(slippageAdjustedAmountOut)
+        : CurrencyAmount.native(this.outputAmount.currency, slippageAdjustedAmountOut)
     }
   }
 
@@ -235,7 +271,7 @@ export class Trade {
       const slippageAdjustedAmountIn = new Fraction(ONE).add(slippageTolerance).multiply(this.inputAmount.raw).quotient
       return this.inputAmount instanceof TokenAmount
         ? new TokenAmount(this.inputAmount.token, slippageAdjustedAmountIn)
-        : CurrencyAmount.ether(slippageAdjustedAmountIn)
+        : CurrencyAmount.native(this.inputAmount.currency, slippageAdjustedAmountIn)
     }
   }
 
@@ -243,8 +279,10 @@ export class Trade {
    * Given a list of pairs, and a fixed amount in, returns the top `maxNumResults` trades that go from an input token
    * amount to an output token, making at most `maxHops` hops.
    * Note this does not consider aggregation, as routes are linear. It's possible a better route exists by splitting
-   * the amount in among multiple routes.
-   * @param pairs the pairs to consider in finding the best trade
+   * the amount in among multiple routes, which `SplitTrade.bestSplitExactIn` can find given the returned routes.
+   * If the currencies are the native currency and its wrapped token, the only trade returned wraps or unwraps it.
+   * @param pairs the pairs to consider in finding the best trade, or a registry holding them, whose pools of each hop's
+   * token are found through its index
    * @param currencyAmountIn exact amount of input currency to spend
    * @param currencyOut the desired currency out
    * @param amountDeviation the amount of deviation in basis points between max output amount and reserves of the pool. if within deviation, its a valid Trade to return
@@ -255,7 +293,7 @@ export class Trade {
    * @param bestTrades used in recursion; the current list of best trades
    */
   public static bestTradeExactIn(
-    pairs: Pair[],
+    pairs: Pair[] | PoolRegistry,
     currencyAmountIn: CurrencyAmount,
     currencyOut: Currency,
     amountDeviation: number,
@@ -265,7 +303,11 @@ export class Trade {
     originalAmountIn: CurrencyAmount = currencyAmountIn,
     bestTrades: Trade[] = []
   ): Trade[] {
-    invariant(pairs.length > 0, 'PAIRS')
+    // wrapping or unwrapping is always the only, and best, trade
+    if (currentPairs.length === 0 && getWrapType(currencyAmountIn.currency, currencyOut) !== WrapType.NOT_APPLICABLE) {
+      return [Trade.exactIn(new Route([], currencyAmountIn.currency, currencyOut), currencyAmountIn)]
+    }
+    invariant((pairs instanceof PoolRegistry ? pairs.pairs : pairs).length > 0, 'PAIRS')
     invariant(maxHops > 0, 'MAX_HOPS')
     invariant(originalAmountIn === currencyAmountIn || currentPairs.length > 0, 'INVALID_RECURSION')
     const chainId: ChainId | undefined =
@@ -278,8 +320,9 @@ export class Trade {
 
     const amountIn = wrappedAmount(currencyAmountIn, chainId)
     const tokenOut = wrappedCurrency(currencyOut, chainId)
-    for (let i = 0; i < pairs.length; i++) {
-      const pair = pairs[i]
+    const candidates = candidatePairs(pairs, amountIn.token, currentPairs)
+    for (let i = 0; i < candidates.length; i++) {
+      const pair = candidates[i]
       // pair irrelevant
       if (!pair.token0.equals(amountIn.token) && !pair.token1.equals(amountIn.token)) continue
       if (pair.reserve0.equalTo(ZERO) && pair.reserve1.equalTo(ZERO)) continue
@@ -314,8 +357,9 @@ export class Trade {
             maxNumResults,
             tradeComparator
           )
-        } else if (maxHops > 1 && pairs.length > 1) {
-          const pairsExcludingThisPair = pairs.slice(0, i).concat(pairs.slice(i + 1, pairs.length))
+        } else if (maxHops > 1 && (pairs instanceof PoolRegistry || pairs.length > 1)) {
+          const pairsExcludingThisPair =
+            pairs instanceof PoolRegistry ? pairs : pairs.slice(0, i).concat(pairs.slice(i + 1, pairs.length))
 
           // otherwise, consider all the other paths that lead from this token as long as we have not exceeded maxHops
           Trade.bestTradeExactIn(
@@ -343,8 +387,10 @@ export class Trade {
    * given a list of pairs, and a fixed amount out, returns the top `maxNumResults` trades that go from an input token
    * to an output token amount, making at most `maxHops` hops
    * note this does not consider aggregation, as routes are linear. it's possible a better route exists by splitting
-   * the amount in among multiple routes.
-   * @param pairs the pairs to consider in finding the best trade
+   * the amount in among multiple routes, which `SplitTrade.bestSplitExactOut` can find given the returned routes.
+   * if the currencies are the native currency and its wrapped token, the only trade returned wraps or unwraps it.
+   * @param pairs the pairs to consider in finding the best trade, or a registry holding them, whose pools of each hop's
+   * token are found through its index
    * @param currencyIn the currency to spend
    * @param currencyAmountOut the exact amount of currency out
    * @param maxNumResults maximum number of results to return
@@ -354,7 +400,7 @@ export class Trade {
    * @param bestTrades used in recursion; the current list of best trades
    */
   public static bestTradeExactOut(
-    pairs: Pair[],
+    pairs: Pair[] | PoolRegistry,
     currencyIn: Currency,
     currencyAmountOut: CurrencyAmount,
     { maxNumResults = 3, maxHops = 3 }: BestTradeOptions = {},
@@ -363,7 +409,11 @@ export class Trade {
     originalAmountOut: CurrencyAmount = currencyAmountOut,
     bestTrades: Trade[] = []
   ): Trade[] {
-    invariant(pairs.length > 0, 'PAIRS')
+    // wrapping or unwrapping is always the only, and best, trade
+    if (currentPairs.length === 0 && getWrapType(currencyIn, currencyAmountOut.currency) !== WrapType.NOT_APPLICABLE) {
+      return [Trade.exactOut(new Route([], currencyIn, currencyAmountOut.currency), currencyAmountOut)]
+    }
+    invariant((pairs instanceof PoolRegistry ? pairs.pairs : pairs).length > 0, 'PAIRS')
     invariant(maxHops > 0, 'MAX_HOPS')
     invariant(originalAmountOut === currencyAmountOut || currentPairs.length > 0, 'INVALID_RECURSION')
     const chainId: ChainId | undefined =
@@ -376,8 +426,9 @@ export class Trade {
 
     const amountOut = wrappedAmount(currencyAmountOut, chainId)
     const tokenIn = wrappedCurrency(currencyIn, chainId)
-    for (let i = 0; i < pairs.length; i++) {
-      const pair = pairs[i]
+    const candidates = candidatePairs(pairs, amountOut.token, currentPairs)
+    for (let i = 0; i < candidates.length; i++) {
+      const pair = candidates[i]
       // pair irrelevant
       if (!pair.token0.equals(amountOut.token) && !pair.token1.equals(amountOut.token)) continue
       if (pair.reserve0.equalTo(ZERO) && pair.reserve1.equalTo(ZERO)) continue
@@ -404,8 +455,9 @@ export class Trade {
           maxNumResults,
           tradeComparator
         )
-      } else if (maxHops > 1 && pairs.length > 1) {
-        const pairsExcludingThisPair = pairs.slice(0, i).concat(pairs.slice(i + 1, pairs.length))
+      } else if (maxHops > 1 && (pairs instanceof PoolRegistry || pairs.length > 1)) {
+        const pairsExcludingThisPair =
+          pairs instanceof PoolRegistry ? pairs : pairs.slice(0, i).concat(pairs.slice(i + 1, pairs.length))
 
         // otherwise, consider all the other paths that arrive at this token as long as we have not exceeded maxHops
         Trade.bestTradeExactOut(
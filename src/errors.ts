@@ -41,3 +41,31 @@ export class TradeNotSupportedError extends Error {
     if (CAN_SET_PROTOTYPE) Object.setPrototypeOf(this, new.target.prototype)
   }
 }
+
+/**
+ * Indicates that a swap would receive less than its minimum output amount, or spend more than its maximum input
+ * amount. I.e. the swap would revert on chain.
+ */
+export class AmountLimitError extends Error {
+  public readonly isAmountLimitError: true = true
+
+  public constructor() {
+    super()
+    this.name = this.constructor.name
+    if (CAN_SET_PROTOTYPE) Object.setPrototypeOf(this, new.target.prototype)
+  }
+}
+
+/**
+ * Indicates that a call of a batch fetched through Multicall reverted or returned data that could not be decoded. I.e.
+ * the item it was fetched for could not be constructed.
+ */
+export class CallFailedError extends Error {
+  public readonly isCallFailedError: true = true
+
+  public constructor(message?: string) {
+    super(message)
+    this.name = this.constructor.name
+    if (CAN_SET_PROTOTYPE) Object.setPrototypeOf(this, new.target.prototype)
+  }
+}
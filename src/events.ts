@@ -0,0 +1,307 @@
+import { Interface, LogDescription } from '@ethersproject/abi'
+import JSBI from 'jsbi'
+import invariant from 'tiny-invariant'
+
+import ImpossiblePair from './abis/ImpossiblePair.json'
+import { TradeState } from './constants'
+import { BoostRamp, Pair, TokenAmount } from './entities'
+import { validateAndParseAddress } from './utils'
+
+/**
+ * A log emitted by a contract, as returned by a provider or a websocket subscription.
+ */
+export interface PairLog {
+  address: string
+  topics: string[]
+  data: string
+  blockNumber?: number
+  transactionHash?: string
+  logIndex?: number
+}
+
+/**
+ * Where a decoded event was emitted.
+ */
+interface PairEventBase {
+  /**
+   * Address of the pair that emitted the event.
+   */
+  address: string
+  blockNumber?: number
+  transactionHash?: string
+  logIndex?: number
+}
+
+export interface SwapEvent extends PairEventBase {
+  name: 'Swap'
+  sender: string
+  amount0In: JSBI
+  amount1In: JSBI
+  amount0Out: JSBI
+  amount1Out: JSBI
+  to: string
+}
+
+export interface SyncEvent extends PairEventBase {
+  name: 'Sync'
+  reserve0: JSBI
+  reserve1: JSBI
+}
+
+export interface MintEvent extends PairEventBase {
+  name: 'Mint'
+  sender: string
+  amount0: JSBI
+  amount1: JSBI
+}
+
+export interface BurnEvent extends PairEventBase {
+  name: 'Burn'
+  sender: string
+  amount0: JSBI
+  amount1: JSBI
+  to: string
+}
+
+export interface ChangeInvariantEvent extends PairEventBase {
+  name: 'ChangeInvariant'
+  isXybk: boolean
+  boost0: number
+  boost1: number
+}
+
+export interface UpdatedTradeFeesEvent extends PairEventBase {
+  name: 'UpdatedTradeFees'
+  oldFee: number
+  newFee: number
+}
+
+export interface UpdatedTradeStateEvent extends PairEventBase {
+  name: 'UpdatedTradeState'
+  tradeState: TradeState
+}
+
+export interface UpdatedBoostEvent extends PairEventBase {
+  name: 'UpdatedBoost'
+  boostRamp: BoostRamp
+}
+
+/**
+ * An event of an Impossible pair that changes its state.
+ */
+export type PairEvent =
+  | SwapEvent
+  | SyncEvent
+  | MintEvent
+  | BurnEvent
+  | ChangeInvariantEvent
+  | UpdatedTradeFeesEvent
+  | UpdatedTradeStateEvent
+  | UpdatedBoostEvent
+
+const PAIR_INTERFACE = new Interface(ImpossiblePair)
+
+function toJSBI(value: { toString(): string }): JSBI {
+  return JSBI.BigInt(value.toString())
+}
+
+function toNumber(value: { toString(): string }): number {
+  return Number(value.toString())
+}
+
+/**
+ * Returns the pair with the given reserves, fee and trade state, keeping its boosts and boost ramp
+ */
+function withState(
+  pair: Pair,
+  {
+    reserve0 = pair.reserve0.raw,
+    reserve1 = pair.reserve1.raw,
+    fee = pair.fee,
+    tradeState = pair.tradeState
+  }: { reserve0?: JSBI; reserve1?: JSBI; fee?: number; tradeState?: TradeState }
+): Pair {
+  return new Pair(
+    new TokenAmount(pair.token0, reserve0),
+    new TokenAmount(pair.token1, reserve1),
+    pair.isXybk,
+    fee,
+    pair.boost0,
+    pair.boost1,
+    tradeState,
+    pair.boostRamp,
+    pair.currentBlock
+  )
+}
+
+/**
+ * Has static methods for decoding the event logs of Impossible pairs and applying them to pairs, so a set of pairs can
+ * be kept current from a log feed instead of fetching every pair again.
+ */
+export abstract class PairEvents {
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {}
+
+  /**
+   * Decodes a log of an Impossible pair. Returns undefined for logs of events that do not change the state of a pair,
+   * e.g. the transfers of its liquidity token, and for logs of other contracts' events.
+   * @param log the raw log
+   */
+  public static decode(log: PairLog): PairEvent | undefined {
+    let description: LogDescription
+    try {
+      description = PAIR_INTERFACE.parseLog(log)
+    } catch (error) {
+      return undefined
+    }
+    const { args } = description
+    const base: PairEventBase = {
+      address: validateAndParseAddress(log.address),
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+      logIndex: log.logIndex
+    }
+    switch (description.name) {
+      case 'Swap':
+        return {
+          ...base,
+          name: 'Swap',
+          sender: args.sender,
+          amount0In: toJSBI(args.amount0In),
+          amount1In: toJSBI(args.amount1In),
+          amount0Out: toJSBI(args.amount0Out),
+          amount1Out: toJSBI(args.amount1Out),
+          to: args.to
+        }
+      case 'Sync':
+        return { ...base, name: 'Sync', reserve0: toJSBI(args.reserve0), reserve1: toJSBI(args.reserve1) }
+      case 'Mint':
+        return {
+          ...base,
+          name: 'Mint',
+          sender: args.sender,
+          amount0: toJSBI(args.amount0),
+          amount1: toJSBI(args.amount1)
+        }
+      case 'Burn':
+        return {
+          ...base,
+          name: 'Burn',
+          sender: args.sender,
+          amount0: toJSBI(args.amount0),
+          amount1: toJSBI(args.amount1),
+          to: args.to
+        }
+      case 'ChangeInvariant':
+        return {
+          ...base,
+          name: 'ChangeInvariant',
+          isXybk: args._isXybk,
+          boost0: toNumber(args._newBoost0),
+          boost1: toNumber(args._newBoost1)
+        }
+      case 'UpdatedTradeFees':
+        return { ...base, name: 'UpdatedTradeFees', oldFee: toNumber(args._oldFee), newFee: toNumber(args._newFee) }
+      case 'UpdatedTradeState':
+        return { ...base, name: 'UpdatedTradeState', tradeState: toNumber(args._tradeState) }
+      case 'UpdatedBoost':
+        return {
+          ...base,
+          name: 'UpdatedBoost',
+          boostRamp: {
+            oldBoost0: toNumber(args._oldBoost0),
+            oldBoost1: toNumber(args._oldBoost1),
+            newBoost0: toNumber(args._newBoost0),
+            newBoost1: toNumber(args._newBoost1),
+            startBlock: toNumber(args._start),
+            endBlock: toNumber(args._end)
+          }
+        }
+      default:
+        return undefined
+    }
+  }
+
+  /**
+   * Returns the pair after the event. Swaps, mints and burns move the reserves by their amounts, syncs set them, and
+   * the other events change the settings of the pair. Pairs with a boost ramp are first moved to the block of the
+   * event, if it has one.
+   * The pair emits a sync before every swap, mint and burn, with the reserves after them, so a log feed should be
+   * applied with `applyLogs`, which does not apply the amounts twice.
+   * @param pair the pair before the event
+   * @param event an event emitted by the pair
+   */
+  public static apply(pair: Pair, event: PairEvent): Pair {
+    invariant(validateAndParseAddress(event.address) === pair.liquidityToken.address, 'PAIR')
+    const current = event.blockNumber !== undefined ? pair.atBlock(event.blockNumber) : pair
+    switch (event.name) {
+      case 'Swap':
+        return withState(current, {
+          reserve0: JSBI.subtract(JSBI.add(current.reserve0.raw, event.amount0In), event.amount0Out),
+          reserve1: JSBI.subtract(JSBI.add(current.reserve1.raw, event.amount1In), event.amount1Out)
+        })
+      case 'Sync':
+        return withState(current, { reserve0: event.reserve0, reserve1: event.reserve1 })
+      case 'Mint':
+        return withState(current, {
+          reserve0: JSBI.add(current.reserve0.raw, event.amount0),
+          reserve1: JSBI.add(current.reserve1.raw, event.amount1)
+        })
+      case 'Burn':
+        return withState(current, {
+          reserve0: JSBI.subtract(current.reserve0.raw, event.amount0),
+          reserve1: JSBI.subtract(current.reserve1.raw, event.amount1)
+        })
+      case 'ChangeInvariant':
+        // changing the invariant ends any boost ramp
+        return new Pair(
+          current.reserve0,
+          current.reserve1,
+          event.isXybk,
+          current.fee,
+          event.boost0,
+          event.boost1,
+          current.tradeState
+        )
+      case 'UpdatedTradeFees':
+        return withState(current, { fee: event.newFee })
+      case 'UpdatedTradeState':
+        return withState(current, { tradeState: event.tradeState })
+      case 'UpdatedBoost':
+        return Pair.fromBoostRamp(
+          current.reserve0,
+          current.reserve1,
+          current.isXybk,
+          current.fee,
+          event.boostRamp,
+          event.blockNumber ?? event.boostRamp.startBlock,
+          current.tradeState
+        )
+    }
+  }
+
+  /**
+   * Decodes the logs and applies them to the pair in order, skipping logs of other contracts and events that do not
+   * change the pair. The amounts of a swap, mint or burn are not applied if the pair synced right before it in the same
+   * transaction, since the sync already set the reserves after it.
+   * @param pair the pair before the logs
+   * @param logs the logs, in the order they were emitted
+   */
+  public static applyLogs(pair: Pair, logs: PairLog[]): Pair {
+    let previous: PairEvent | undefined
+    let current = pair
+    for (const log of logs) {
+      const event = PairEvents.decode(log)
+      if (event === undefined || event.address !== pair.liquidityToken.address) continue
+      const isSynced =
+        (event.name === 'Swap' || event.name === 'Mint' || event.name === 'Burn') &&
+        previous?.name === 'Sync' &&
+        previous.transactionHash === event.transactionHash
+      if (!isSynced) current = PairEvents.apply(current, event)
+      previous = event
+    }
+    return current
+  }
+}
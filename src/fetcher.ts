@@ -1,22 +1,193 @@
+import { Interface, Result } from '@ethersproject/abi'
 import { Contract } from '@ethersproject/contracts'
 import { getNetwork } from '@ethersproject/networks'
-import { getDefaultProvider } from '@ethersproject/providers'
+import { BlockTag, getDefaultProvider, Provider } from '@ethersproject/providers'
 import { TokenAmount } from './entities/fractions/tokenAmount'
 import { Pair } from './entities/pair'
 import IPancakePair from '@pancakeswap-libs/pancake-swap-core/build/IPancakePair.json'
 import invariant from 'tiny-invariant'
 import ERC20 from './abis/ERC20.json'
+import ImpossiblePair from './abis/ImpossiblePair.json'
+import Multicall3 from './abis/Multicall3.json'
 import { ChainId, TradeState } from './constants'
+import { getDeployment } from './deployments'
 import { Token } from './entities/token'
+import { getTokenDecimalsCache, LRUCache, tokenDecimalsKey } from './caches'
+import { CallFailedError } from './errors'
+import { validateAndParseAddress } from './utils'
 
-let TOKEN_DECIMALS_CACHE: { [chainId: number]: { [address: string]: number } } = {
+// decimals of tokens whose contracts do not have a decimals method, used whenever the caches miss
+const DEFAULT_TOKEN_DECIMALS: { [chainId: number]: { [address: string]: number } } = {
   [ChainId.MAINNET]: {
     '0xE0B7927c4aF23765Cb51314A0E0521A9645F0E2A': 9 // DGD
   }
 }
 
 /**
- * Contains methods for constructing instances of pairs and tokens from on-chain data.
+ * The state of an Impossible pair at a block, with the reserves in the order of the pair's tokens.
+ */
+interface PairState {
+  reserve0: string
+  reserve1: string
+  isXybk: boolean
+  fee: number
+  tradeState: TradeState
+  boost0: number
+  boost1: number
+}
+
+// the state of tokens and pairs at past blocks, keyed by block so it never mixes with the latest state
+const BLOCK_TOKEN_DECIMALS_CACHE = new LRUCache<number>()
+const BLOCK_PAIR_STATE_CACHE = new LRUCache<PairState>()
+
+function blockKey(chainId: ChainId, blockNumber: number, address: string): string {
+  return `${chainId}:${blockNumber}:${address}`
+}
+
+/**
+ * Returns the number of the block the tag refers to, undefined for tags whose block moves, e.g. 'latest' or a negative
+ * number, which the provider counts back from the latest block
+ */
+function blockNumberOf(blockTag?: BlockTag): number | undefined {
+  if (typeof blockTag === 'number') return blockTag >= 0 ? blockTag : undefined
+  if (blockTag === 'earliest') return 0
+  if (blockTag !== undefined && /^0x[0-9a-fA-F]+$/.test(blockTag)) return parseInt(blockTag, 16)
+  return undefined
+}
+
+function cachedDecimals(chainId: ChainId, address: string, blockNumber?: number): number | undefined {
+  const cached =
+    blockNumber === undefined
+      ? getTokenDecimalsCache().get(tokenDecimalsKey(chainId, address))
+      : BLOCK_TOKEN_DECIMALS_CACHE.get(blockKey(chainId, blockNumber, address))
+  return cached ?? DEFAULT_TOKEN_DECIMALS[chainId]?.[address]
+}
+
+function cacheDecimals(chainId: ChainId, address: string, decimals: number, blockNumber?: number): void {
+  if (blockNumber === undefined) {
+    getTokenDecimalsCache().set(tokenDecimalsKey(chainId, address), decimals)
+  } else {
+    BLOCK_TOKEN_DECIMALS_CACHE.set(blockKey(chainId, blockNumber, address), decimals)
+  }
+}
+
+function cachedPairState(chainId: ChainId, address: string, blockNumber?: number): PairState | undefined {
+  return blockNumber === undefined ? undefined : BLOCK_PAIR_STATE_CACHE.get(blockKey(chainId, blockNumber, address))
+}
+
+/**
+ * Constructs the pair of the given tokens from its state, at the block the state is from if it is known
+ */
+function pairFromState(tokenA: Token, tokenB: Token, state: PairState, blockNumber?: number): Pair {
+  const balances = tokenA.sortsBefore(tokenB) ? [state.reserve0, state.reserve1] : [state.reserve1, state.reserve0]
+  return new Pair(
+    new TokenAmount(tokenA, balances[0]),
+    new TokenAmount(tokenB, balances[1]),
+    state.isXybk,
+    state.fee,
+    state.boost0,
+    state.boost1,
+    state.tradeState,
+    undefined,
+    blockNumber
+  )
+}
+
+/**
+ * Reads the state of a pair from the results of its getReserves, getPairSettings and calcBoost calls
+ */
+function pairStateOf(
+  [reserve0, reserve1]: Result,
+  [fee, tradeState, isXybk]: Result,
+  [boost0, boost1]: Result
+): PairState {
+  return {
+    reserve0: reserve0.toString(),
+    reserve1: reserve1.toString(),
+    isXybk,
+    fee: Number(fee.toString()),
+    tradeState: Number(tradeState.toString()),
+    boost0: boost0.toNumber(),
+    boost1: boost1.toNumber()
+  }
+}
+
+/**
+ * The result of fetching one item of a batch. Items fail on their own, so the rest of the batch is still returned.
+ */
+export interface FetchResult<T> {
+  /**
+   * The fetched item, undefined if fetching it failed.
+   */
+  result?: T
+  /**
+   * Why fetching the item failed.
+   */
+  error?: Error
+}
+
+interface Call {
+  target: string
+  callData: string
+}
+
+// an item of a batch, with the index of its first call, or the error its calls could not be made for
+type BatchItem = { target: string; start: number } | { error: Error }
+
+const ERC20_INTERFACE = new Interface(ERC20)
+const PAIR_INTERFACE = new Interface(ImpossiblePair)
+
+// the most calls sent in one Multicall call, so a batch stays under the gas limit of eth_call
+const MULTICALL_BATCH_SIZE = 500
+
+/**
+ * Sends the calls through the Multicall contract of the chain at the given block, allowing each one to fail. Returns
+ * the data each call returned, undefined for calls that reverted.
+ */
+async function multicall(
+  chainId: ChainId,
+  calls: Call[],
+  provider: Provider,
+  blockTag?: BlockTag
+): Promise<(string | undefined)[]> {
+  const { multicall: address } = getDeployment(chainId)
+  invariant(address !== undefined, 'MULTICALL')
+  const contract = new Contract(address, Multicall3, provider)
+  const batches: Call[][] = []
+  for (let i = 0; i < calls.length; i += MULTICALL_BATCH_SIZE) {
+    batches.push(calls.slice(i, i + MULTICALL_BATCH_SIZE))
+  }
+  const results: { success: boolean; returnData: string }[][] = await Promise.all(
+    batches.map(batch =>
+      contract.callStatic.aggregate3(
+        batch.map(call => ({ ...call, allowFailure: true })),
+        { blockTag }
+      )
+    )
+  )
+  return results.reduce<(string | undefined)[]>(
+    (returned, batch) => returned.concat(batch.map(({ success, returnData }) => (success ? returnData : undefined))),
+    []
+  )
+}
+
+/**
+ * Decodes the data a call returned
+ * @throws CallFailedError if the call reverted or returned data that does not decode
+ */
+function decodeResult(contractInterface: Interface, method: string, target: string, data: string | undefined): Result {
+  const message = `${method} failed on ${target}`
+  if (data === undefined) throw new CallFailedError(message)
+  try {
+    return contractInterface.decodeFunctionResult(method, data)
+  } catch (error) {
+    throw new CallFailedError(message)
+  }
+}
+
+/**
+ * Contains methods for constructing instances of pairs and tokens from on-chain data. Each method takes an optional
+ * block tag or number to read the data as it was at that block, e.g. for backtests, instead of the latest data.
  */
 export abstract class Fetcher {
   /**
@@ -31,25 +202,23 @@ export abstract class Fetcher {
    * @param provider provider used to fetch the token
    * @param symbol optional symbol of the token
    * @param name optional name of the token
+   * @param blockTag block to fetch the token at, the latest by default
    */
   public static async fetchTokenData(
     chainId: ChainId,
     address: string,
     provider = getDefaultProvider(getNetwork(chainId)),
     symbol?: string,
-    name?: string
+    name?: string,
+    blockTag?: BlockTag
   ): Promise<Token> {
+    const blockNumber = blockNumberOf(blockTag)
+    const cached = cachedDecimals(chainId, address, blockNumber)
     const parsedDecimals =
-      typeof TOKEN_DECIMALS_CACHE?.[chainId]?.[address] === 'number'
-        ? TOKEN_DECIMALS_CACHE[chainId][address]
-        : await new Contract(address, ERC20, provider).decimals().then((decimals: number): number => {
-            TOKEN_DECIMALS_CACHE = {
-              ...TOKEN_DECIMALS_CACHE,
-              [chainId]: {
-                ...TOKEN_DECIMALS_CACHE?.[chainId],
-                [address]: decimals
-              }
-            }
+      typeof cached === 'number'
+        ? cached
+        : await new Contract(address, ERC20, provider).decimals({ blockTag }).then((decimals: number): number => {
+            cacheDecimals(chainId, address, decimals, blockNumber)
             return decimals
           })
     return new Token(chainId, address, parsedDecimals, symbol, name)
@@ -64,6 +233,7 @@ export abstract class Fetcher {
    * @param boost0 of the pool, to use when reserve0 > reserve1
    * @param boost1 of the pool, to use when reserve1 > reserve0
    * @param provider the provider to use to fetch the data
+   * @param blockTag block to fetch the reserves at, the latest by default
    */
   public static async fetchPairData(
     tokenA: Token,
@@ -72,11 +242,12 @@ export abstract class Fetcher {
     fee: number,
     boost0: number,
     boost1: number,
-    provider = getDefaultProvider(getNetwork(tokenA.chainId))
+    provider = getDefaultProvider(getNetwork(tokenA.chainId)),
+    blockTag?: BlockTag
   ): Promise<Pair> {
     invariant(tokenA.chainId === tokenB.chainId, 'CHAIN_ID')
     const address = Pair.getAddress(tokenA, tokenB)
-    const [reserves0, reserves1] = await new Contract(address, IPancakePair.abi, provider).getReserves()
+    const [reserves0, reserves1] = await new Contract(address, IPancakePair.abi, provider).getReserves({ blockTag })
     const balances = tokenA.sortsBefore(tokenB) ? [reserves0, reserves1] : [reserves1, reserves0]
     return new Pair(
       new TokenAmount(tokenA, balances[0]),
@@ -85,7 +256,172 @@ export abstract class Fetcher {
       fee,
       boost0,
       boost1,
-      TradeState.SELL_ALL
+      TradeState.SELL_ALL,
+      undefined,
+      blockNumberOf(blockTag)
+    )
+  }
+
+  /**
+   * Fetches information about a pair and constructs a pair from the given two tokens, reading the invariant, fee,
+   * boosts and trade state from the Impossible pair contract instead of taking them as arguments. Pairs fetched at a
+   * block number are cached, and have it as their current block.
+   * @param tokenA first token
+   * @param tokenB second token
+   * @param provider the provider to use to fetch the data
+   * @param blockTag block to fetch the pair at, the latest by default
+   */
+  public static async fetchImpossiblePairData(
+    tokenA: Token,
+    tokenB: Token,
+    provider = getDefaultProvider(getNetwork(tokenA.chainId)),
+    blockTag?: BlockTag
+  ): Promise<Pair> {
+    invariant(tokenA.chainId === tokenB.chainId, 'CHAIN_ID')
+    const address = Pair.getAddress(tokenA, tokenB)
+    const blockNumber = blockNumberOf(blockTag)
+    const cached = cachedPairState(tokenA.chainId, address, blockNumber)
+    if (cached !== undefined) return pairFromState(tokenA, tokenB, cached, blockNumber)
+
+    const pairContract = new Contract(address, ImpossiblePair, provider)
+    const [reserves, settings, boosts] = await Promise.all([
+      pairContract.getReserves({ blockTag }),
+      pairContract.getPairSettings({ blockTag }),
+      pairContract.calcBoost({ blockTag })
+    ])
+    const state = pairStateOf(reserves, settings, boosts)
+    if (blockNumber !== undefined) BLOCK_PAIR_STATE_CACHE.set(blockKey(tokenA.chainId, blockNumber, address), state)
+    return pairFromState(tokenA, tokenB, state, blockNumber)
+  }
+
+  /**
+   * Fetches the decimals, symbol and name of the given tokens on the given chain in as few calls as possible, batching
+   * them through the Multicall contract of the chain. Decimals already cached are not fetched again. Each result has
+   * either the token, or the error it could not be fetched for, e.g. if its decimals call reverted. Tokens whose
+   * symbol or name calls fail are returned without them.
+   * @param chainId chain of the tokens
+   * @param addresses addresses of the tokens on the chain
+   * @param provider provider used to fetch the tokens
+   * @param blockTag block to fetch the tokens at, the latest by default
+   */
+  public static async fetchTokensData(
+    chainId: ChainId,
+    addresses: string[],
+    provider: Provider = getDefaultProvider(getNetwork(chainId)),
+    blockTag?: BlockTag
+  ): Promise<FetchResult<Token>[]> {
+    const blockNumber = blockNumberOf(blockTag)
+    const calls: Call[] = []
+    // the decimals cached when the calls were made, which may be evicted while they are in flight
+    const cachedDecimalsOf: (number | undefined)[] = []
+    const items = addresses.map(
+      (address, i): BatchItem => {
+        try {
+          const target = validateAndParseAddress(address)
+          const start = calls.length
+          cachedDecimalsOf[i] = cachedDecimals(chainId, target, blockNumber)
+          if (typeof cachedDecimalsOf[i] !== 'number') {
+            calls.push({ target, callData: ERC20_INTERFACE.encodeFunctionData('decimals') })
+          }
+          calls.push({ target, callData: ERC20_INTERFACE.encodeFunctionData('symbol') })
+          calls.push({ target, callData: ERC20_INTERFACE.encodeFunctionData('name') })
+          return { target, start }
+        } catch (error) {
+          return { error }
+        }
+      }
+    )
+
+    const returned = await multicall(chainId, calls, provider, blockTag)
+    return items.map((item, i) => {
+      if ('error' in item) return { error: item.error }
+      const { target } = item
+      let index = item.start
+      try {
+        const cached = cachedDecimalsOf[i]
+        const parsedDecimals: number =
+          typeof cached === 'number' ? cached : decodeResult(ERC20_INTERFACE, 'decimals', target, returned[index++])[0]
+        cacheDecimals(chainId, target, parsedDecimals, blockNumber)
+        // tokens are usable without a symbol or name, e.g. those returning them as bytes32
+        const [symbol, name] = ['symbol', 'name'].map((method, j) => {
+          try {
+            return decodeResult(ERC20_INTERFACE, method, target, returned[index + j])[0] as string
+          } catch (error) {
+            return undefined
+          }
+        })
+        return { result: new Token(chainId, target, parsedDecimals, symbol, name) }
+      } catch (error) {
+        return { error }
+      }
+    })
+  }
+
+  /**
+   * Fetches the reserves, settings and boosts of the Impossible pairs of the given tokens in as few calls as possible,
+   * batching them through the Multicall contract of the chain, and constructs the pairs as `fetchImpossiblePairData`
+   * does. Pairs already cached at the block are not fetched again. Each result has either the pair, or the error it
+   * could not be fetched for, e.g. if the pair does not exist.
+   * @param tokenPairs the two tokens of each pair to fetch
+   * @param provider the provider to use to fetch the data, by default one for the chain of the pairs
+   * @param blockTag block to fetch the pairs at, the latest by default
+   * @throws if there are no pairs or they are not all on the same chain
+   */
+  public static async fetchImpossiblePairsData(
+    tokenPairs: [Token, Token][],
+    provider?: Provider,
+    blockTag?: BlockTag
+  ): Promise<FetchResult<Pair>[]> {
+    invariant(tokenPairs.length > 0, 'PAIRS')
+    const chainId = tokenPairs[0][0].chainId
+    invariant(
+      tokenPairs.every(([tokenA, tokenB]) => tokenA.chainId === chainId && tokenB.chainId === chainId),
+      'CHAIN_ID'
     )
+    const blockNumber = blockNumberOf(blockTag)
+    // the states cached when the calls were made, so the results line up with the calls
+    const cachedStates: (PairState | undefined)[] = []
+    const methods = ['getReserves', 'getPairSettings', 'calcBoost']
+    const calls: Call[] = []
+    const items = tokenPairs.map(
+      ([tokenA, tokenB], i): BatchItem => {
+        try {
+          const target = Pair.getAddress(tokenA, tokenB)
+          const start = calls.length
+          const cached = cachedPairState(chainId, target, blockNumber)
+          cachedStates[i] = cached
+          if (cached === undefined) {
+            for (const method of methods) {
+              calls.push({ target, callData: PAIR_INTERFACE.encodeFunctionData(method) })
+            }
+          }
+          return { target, start }
+        } catch (error) {
+          return { error }
+        }
+      }
+    )
+
+    const returned =
+      calls.length > 0
+        ? await multicall(chainId, calls, provider ?? getDefaultProvider(getNetwork(chainId)), blockTag)
+        : []
+    return tokenPairs.map(([tokenA, tokenB], i) => {
+      const item = items[i]
+      if ('error' in item) return { error: item.error }
+      try {
+        let state = cachedStates[i]
+        if (state === undefined) {
+          const [reserves, settings, boosts] = methods.map((method, j) =>
+            decodeResult(PAIR_INTERFACE, method, item.target, returned[item.start + j])
+          )
+          state = pairStateOf(reserves, settings, boosts)
+          if (blockNumber !== undefined) BLOCK_PAIR_STATE_CACHE.set(blockKey(chainId, blockNumber, item.target), state)
+        }
+        return { result: pairFromState(tokenA, tokenB, state, blockNumber) }
+      } catch (error) {
+        return { error }
+      }
+    })
   }
 }
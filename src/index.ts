@@ -6,13 +6,24 @@ export {
   ChainId,
   TradeType,
   TradeState,
+  WrapType,
   Rounding,
   FACTORY_ADDRESS,
   INIT_CODE_HASH,
+  MULTICALL_ADDRESS,
   MINIMUM_LIQUIDITY
 } from './constants'
 
 export * from './errors'
 export * from './entities'
 export * from './router'
+export * from './zap'
+export * from './simulator'
+export * from './sandwich'
+export * from './slippage'
+export * from './priceImpact'
+export * from './arbitrage'
+export * from './events'
 export * from './fetcher'
+export * from './deployments'
+export * from './caches'
@@ -0,0 +1,167 @@
+import JSBI from 'jsbi'
+import invariant from 'tiny-invariant'
+
+import { ONE, TradeType, TWO, ZERO } from './constants'
+import {
+  BestTradeOptions,
+  Currency,
+  CurrencyAmount,
+  Pair,
+  PairGraph,
+  Percent,
+  PoolRegistry,
+  Route,
+  Token,
+  TokenAmount,
+  Trade,
+  wrappedCurrency
+} from './entities'
+
+/**
+ * Options for finding the largest trade over a set of pairs.
+ */
+export interface LargestTradeOptions extends BestTradeOptions {
+  /**
+   * The amount deviation in basis points passed to `bestTradeExactIn`, unused for exact output trades.
+   */
+  amountDeviation?: number
+}
+
+// the largest amount tried, beyond which the price impact is taken to never exceed the cap
+const MAX_AMOUNT = JSBI.exponentiate(TWO, JSBI.BigInt(128))
+
+function amountOf(currency: Currency, raw: JSBI): CurrencyAmount {
+  return currency instanceof Token ? new TokenAmount(currency, raw) : CurrencyAmount.native(currency, raw)
+}
+
+/**
+ * Returns the trade for the largest amount whose price impact does not exceed the cap, given the trade for each
+ * amount, undefined for amounts that cannot be traded. The search starts from the hint, which should be an amount large
+ * enough for rounding not to dominate the price impact, since the impact of the smallest amounts is rounded up.
+ */
+function largestWithin(
+  hint: JSBI,
+  maximumImpact: Percent,
+  tradeOf: (amount: JSBI) => Trade | undefined
+): Trade | undefined {
+  invariant(!maximumImpact.lessThan(ZERO), 'PRICE_IMPACT')
+  const withinCap = (amount: JSBI): boolean => {
+    const trade = tradeOf(amount)
+    return trade !== undefined && !trade.priceImpact.greaterThan(maximumImpact)
+  }
+
+  try {
+    // the price impact grows with the amount, so double or halve the hint until the cap is between two amounts, then
+    // bisect
+    let low = ZERO
+    let high = JSBI.greaterThan(hint, ZERO) ? hint : ONE
+    if (withinCap(high)) {
+      do {
+        low = high
+        high = JSBI.multiply(high, TWO)
+      } while (JSBI.lessThanOrEqual(high, MAX_AMOUNT) && withinCap(high))
+      if (JSBI.greaterThan(high, MAX_AMOUNT)) return tradeOf(low)
+    } else {
+      low = JSBI.divide(high, TWO)
+      while (JSBI.greaterThan(low, ZERO) && !withinCap(low)) {
+        high = low
+        low = JSBI.divide(low, TWO)
+      }
+      if (JSBI.equal(low, ZERO)) return undefined
+    }
+    while (JSBI.greaterThan(JSBI.subtract(high, low), ONE)) {
+      const middle = JSBI.divide(JSBI.add(low, high), TWO)
+      if (withinCap(middle)) {
+        low = middle
+      } else {
+        high = middle
+      }
+    }
+    return tradeOf(low)
+  } catch (error) {
+    // trading is paused in the direction of the trade, so no amount can be traded
+    if (error.isTradeNotSupportedError) {
+      return undefined
+    }
+    throw error
+  }
+}
+
+/**
+ * Has static methods for finding the largest trades that stay within a price impact.
+ */
+export abstract class PriceImpact {
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {}
+
+  /**
+   * Returns the trade along the route for the largest amount whose price impact does not exceed the cap, i.e. the
+   * largest input amount for exact input trades and the largest output amount for exact output trades. Returns
+   * undefined if no amount can be traded within the cap, or the route does not support trading in its direction.
+   * @param route the route to trade along
+   * @param tradeType whether to find the largest input or output amount
+   * @param maximumImpact the largest price impact allowed
+   * @throws if the route wraps or unwraps the native currency, which has no price impact at any amount and so no
+   * largest amount
+   */
+  public static largestTrade(route: Route, tradeType: TradeType, maximumImpact: Percent): Trade | undefined {
+    // wrapping or unwrapping has no price impact at any amount, so there is no largest amount to find
+    invariant(route.pairs.length > 0, 'PAIRS')
+    const [currency, hint] =
+      tradeType === TradeType.EXACT_INPUT
+        ? [route.input, route.pairs[0].reserveOf(route.path[0]).raw]
+        : [route.output, route.pairs[route.pairs.length - 1].reserveOf(route.path[route.path.length - 1]).raw]
+    return largestWithin(hint, maximumImpact, amount => {
+      try {
+        return new Trade(route, amountOf(currency, amount), tradeType)
+      } catch (error) {
+        if (error.isInsufficientInputAmountError || error.isInsufficientReservesError) {
+          return undefined
+        }
+        throw error
+      }
+    })
+  }
+
+  /**
+   * Returns the best trade between the currencies, as found by `PairGraph`, for the largest amount whose price impact
+   * does not exceed the cap. The best route can change with the amount, so this assumes the price impact of the best
+   * trade grows with the amount as it does along a single route. Returns undefined if no amount can be traded within
+   * the cap.
+   * @param pairs the pairs to consider, or a graph or registry of them
+   * @param currencyIn the currency to spend
+   * @param currencyOut the currency to receive
+   * @param tradeType whether to find the largest input or output amount
+   * @param maximumImpact the largest price impact allowed
+   * @param options options for finding the best trade at each amount
+   */
+  public static largestBestTrade(
+    pairs: Pair[] | PairGraph | PoolRegistry,
+    currencyIn: Currency,
+    currencyOut: Currency,
+    tradeType: TradeType,
+    maximumImpact: Percent,
+    { amountDeviation = 0, ...options }: LargestTradeOptions = {}
+  ): Trade | undefined {
+    const graph = pairs instanceof PairGraph ? pairs : new PairGraph(pairs)
+    invariant(graph.pairs.length > 0, 'PAIRS')
+    // start from the deepest reserve of the token the amount is in
+    const token = wrappedCurrency(
+      tradeType === TradeType.EXACT_INPUT ? currencyIn : currencyOut,
+      graph.pairs[0].chainId
+    )
+    const hint = graph
+      .pairsOf(token)
+      .map(pair => pair.reserveOf(token).raw)
+      .reduce((deepest, reserve) => (JSBI.greaterThan(reserve, deepest) ? reserve : deepest), ZERO)
+    return largestWithin(hint, maximumImpact, amount => {
+      const [trade] =
+        tradeType === TradeType.EXACT_INPUT
+          ? graph.bestTradeExactIn(amountOf(currencyIn, amount), currencyOut, amountDeviation, options)
+          : graph.bestTradeExactOut(currencyIn, amountOf(currencyOut, amount), options)
+      return trade
+    })
+  }
+}
@@ -1,7 +1,20 @@
-import { TradeType } from './constants'
+import { Interface } from '@ethersproject/abi'
+import { ONE, TradeType, WrapType, ZERO } from './constants'
 import invariant from 'tiny-invariant'
+import ImpossibleRouter from './abis/ImpossibleRouter.json'
+import WETH from './abis/WETH.json'
+import { getDeployment } from './deployments'
 import { validateAndParseAddress } from './utils'
-import { CurrencyAmount, ETHER, Percent, Trade } from './entities'
+import {
+  CurrencyAmount,
+  currencyEquals,
+  Fraction,
+  Pair,
+  Percent,
+  TokenAmount,
+  Trade,
+  wrappedCurrency
+} from './entities'
 
 /**
  * Options for producing the arguments to send call to the router.
@@ -28,6 +41,43 @@ export interface TradeOptions {
   feeOnTransfer?: boolean
 }
 
+/**
+ * Options for producing the arguments to send call to the router to add or remove liquidity.
+ */
+export interface LiquidityOptions {
+  /**
+   * How much the amounts deposited or withdrawn are allowed to move unfavorably from the amounts at the current
+   * reserves.
+   */
+  allowedSlippage: Percent
+  /**
+   * How long the call is valid until it expires, in seconds.
+   * This will be used to produce a `deadline` parameter which is computed from when the call parameters
+   * are generated.
+   */
+  ttl: number
+  /**
+   * The account that should receive the liquidity tokens, or the tokens withdrawn.
+   */
+  recipient: string
+}
+
+/**
+ * Options for producing the arguments to send call to the router to remove liquidity.
+ */
+export interface RemoveLiquidityOptions extends LiquidityOptions {
+  /**
+   * Whether the wrapped ether side of the pair should be withdrawn as ether
+   */
+  receiveEther?: boolean
+
+  /**
+   * Whether the token paired with wrapped ether is a fee on transfer token, which should be handled with special
+   * methods. Only applies when receiving ether.
+   */
+  feeOnTransfer?: boolean
+}
+
 /**
  * The parameters to use in the call to the Uniswap V2 Router to execute a trade.
  */
@@ -46,10 +96,45 @@ export interface SwapParameters {
   value: string
 }
 
+/**
+ * A transaction calling the router, ready to be sent by a signer.
+ */
+export interface TransactionParameters {
+  /**
+   * The address of the contract to call, i.e. the router or the wrapped native token.
+   */
+  to: string
+  /**
+   * The calldata of the method call, hex encoded.
+   */
+  data: string
+  /**
+   * The amount of wei to send in hex.
+   */
+  value: string
+}
+
+const ROUTER_INTERFACE = new Interface(ImpossibleRouter)
+const WETH_INTERFACE = new Interface(WETH)
+
 function toHex(currencyAmount: CurrencyAmount) {
   return `0x${currencyAmount.raw.toString(16)}`
 }
 
+function toDeadline(ttl: number) {
+  return `0x${(Math.floor(new Date().getTime() / 1000) + ttl).toString(16)}`
+}
+
+// the least amount accepted for the given slippage, using the same adjustment as `Trade.minimumAmountOut`
+function toMinimumHex(currencyAmount: CurrencyAmount, slippageTolerance: Percent) {
+  invariant(!slippageTolerance.lessThan(ZERO), 'SLIPPAGE_TOLERANCE')
+  const minimumAmount = new Fraction(ONE)
+    .add(slippageTolerance)
+    .invert()
+    .multiply(currencyAmount.raw).quotient
+  return `0x${minimumAmount.toString(16)}`
+}
+
 const ZERO_HEX = '0x0'
 
 /**
@@ -62,12 +147,24 @@ export abstract class Router {
   private constructor() {}
   /**
    * Produces the on-chain method name to call and the hex encoded parameters to pass as arguments for a given trade.
+   * Trades that wrap or unwrap the native currency produce `deposit` or `withdraw` calls to the wrapped native token
+   * instead, which credit the sender, so the recipient and deadline do not apply to them.
    * @param trade to produce call parameters for
    * @param options options for the call parameters
    */
   public static swapCallParameters(trade: Trade, options: TradeOptions): SwapParameters {
-    const etherIn = trade.inputAmount.currency === ETHER
-    const etherOut = trade.outputAmount.currency === ETHER
+    switch (trade.route.wrapType) {
+      case WrapType.WRAP:
+        // ()
+        return { methodName: 'deposit', args: [], value: toHex(trade.inputAmount) }
+      case WrapType.UNWRAP:
+        // (uint wad)
+        return { methodName: 'withdraw', args: [toHex(trade.inputAmount)], value: ZERO_HEX }
+    }
+
+    const { nativeCurrency } = getDeployment(trade.route.chainId)
+    const etherIn = currencyEquals(trade.inputAmount.currency, nativeCurrency)
+    const etherOut = currencyEquals(trade.outputAmount.currency, nativeCurrency)
     // the router does not support both ether in and out
     invariant(!(etherIn && etherOut), 'ETHER_IN_OUT')
     invariant(options.ttl > 0, 'TTL')
@@ -76,7 +173,7 @@ export abstract class Router {
     const amountIn: string = toHex(trade.maximumAmountIn(options.allowedSlippage))
     const amountOut: string = toHex(trade.minimumAmountOut(options.allowedSlippage))
     const path: string[] = trade.route.path.map(token => token.address)
-    const deadline = `0x${(Math.floor(new Date().getTime() / 1000) + options.ttl).toString(16)}`
+    const deadline = toDeadline(options.ttl)
     const useFeeOnTransfer = Boolean(options.feeOnTransfer)
 
     let methodName: string
@@ -129,4 +226,137 @@ export abstract class Router {
       value
     }
   }
+
+  /**
+   * Produces the on-chain method name to call and the hex encoded parameters to pass as arguments for adding the given
+   * amounts of liquidity to a pair.
+   * @param pair the pair to add liquidity to
+   * @param amountA desired amount of one of the pair's currencies to deposit, may be ether if the pair holds WETH
+   * @param amountB desired amount of the other currency to deposit, may be ether if the pair holds WETH
+   * @param options options for the call parameters
+   */
+  public static addLiquidityCallParameters(
+    pair: Pair,
+    amountA: CurrencyAmount,
+    amountB: CurrencyAmount,
+    options: LiquidityOptions
+  ): SwapParameters {
+    const { nativeCurrency } = getDeployment(pair.chainId)
+    const etherA = currencyEquals(amountA.currency, nativeCurrency)
+    const etherB = currencyEquals(amountB.currency, nativeCurrency)
+    invariant(!(etherA && etherB), 'ETHER_IN_OUT')
+    const tokenA = wrappedCurrency(amountA.currency, pair.chainId)
+    const tokenB = wrappedCurrency(amountB.currency, pair.chainId)
+    invariant(!tokenA.equals(tokenB) && pair.involvesToken(tokenA) && pair.involvesToken(tokenB), 'TOKEN')
+    invariant(options.ttl > 0, 'TTL')
+
+    const to: string = validateAndParseAddress(options.recipient)
+    const deadline = toDeadline(options.ttl)
+
+    if (etherA || etherB) {
+      const [tokenAmount, etherAmount] = etherA ? [amountB, amountA] : [amountA, amountB]
+      return {
+        methodName: 'addLiquidityETH',
+        // (address token, uint amountTokenDesired, uint amountTokenMin, uint amountETHMin, address to, uint deadline)
+        args: [
+          wrappedCurrency(tokenAmount.currency, pair.chainId).address,
+          toHex(tokenAmount),
+          toMinimumHex(tokenAmount, options.allowedSlippage),
+          toMinimumHex(etherAmount, options.allowedSlippage),
+          to,
+          deadline
+        ],
+        value: toHex(etherAmount)
+      }
+    }
+    return {
+      methodName: 'addLiquidity',
+      // (address tokenA, address tokenB, uint amountADesired, uint amountBDesired, uint amountAMin, uint amountBMin, address to, uint deadline)
+      args: [
+        tokenA.address,
+        tokenB.address,
+        toHex(amountA),
+        toHex(amountB),
+        toMinimumHex(amountA, options.allowedSlippage),
+        toMinimumHex(amountB, options.allowedSlippage),
+        to,
+        deadline
+      ],
+      value: ZERO_HEX
+    }
+  }
+
+  /**
+   * Produces the on-chain method name to call and the hex encoded parameters to pass as arguments for removing the
+   * given amount of liquidity from a pair.
+   * @param pair the pair to remove liquidity from
+   * @param liquidity amount of liquidity tokens to burn
+   * @param totalSupply total supply of the pair's liquidity token
+   * @param options options for the call parameters
+   */
+  public static removeLiquidityCallParameters(
+    pair: Pair,
+    liquidity: TokenAmount,
+    totalSupply: TokenAmount,
+    options: RemoveLiquidityOptions
+  ): SwapParameters {
+    invariant(options.ttl > 0, 'TTL')
+    const receiveEther = Boolean(options.receiveEther)
+    const wrappedNative = getDeployment(pair.chainId).wrappedNative
+    invariant(!receiveEther || pair.involvesToken(wrappedNative), 'WETH')
+    invariant(receiveEther || !options.feeOnTransfer, 'FEE_ON_TRANSFER')
+
+    const to: string = validateAndParseAddress(options.recipient)
+    const deadline = toDeadline(options.ttl)
+    const amount0 = pair.getLiquidityValue(pair.token0, totalSupply, liquidity)
+    const amount1 = pair.getLiquidityValue(pair.token1, totalSupply, liquidity)
+
+    if (receiveEther) {
+      const [tokenAmount, etherAmount] = pair.token0.equals(wrappedNative) ? [amount1, amount0] : [amount0, amount1]
+      return {
+        methodName: options.feeOnTransfer ? 'removeLiquidityETHSupportingFeeOnTransferTokens' : 'removeLiquidityETH',
+        // (address token, uint liquidity, uint amountTokenMin, uint amountETHMin, address to, uint deadline)
+        args: [
+          tokenAmount.token.address,
+          toHex(liquidity),
+          toMinimumHex(tokenAmount, options.allowedSlippage),
+          toMinimumHex(etherAmount, options.allowedSlippage),
+          to,
+          deadline
+        ],
+        value: ZERO_HEX
+      }
+    }
+    return {
+      methodName: 'removeLiquidity',
+      // (address tokenA, address tokenB, uint liquidity, uint amountAMin, uint amountBMin, address to, uint deadline)
+      args: [
+        pair.token0.address,
+        pair.token1.address,
+        toHex(liquidity),
+        toMinimumHex(amount0, options.allowedSlippage),
+        toMinimumHex(amount1, options.allowedSlippage),
+        to,
+        deadline
+      ],
+      value: ZERO_HEX
+    }
+  }
+
+  /**
+   * Encodes call parameters produced by this class into a transaction to the given contract, i.e. the router, or the
+   * wrapped native token for `deposit` and `withdraw` calls. The SDK does not ship the router addresses, so the router
+   * is the caller's to choose.
+   * @param parameters the method name, arguments and value of the call
+   * @param to address of the router, or of the wrapped native token for `deposit` and `withdraw` calls
+   */
+  public static encodeCallParameters(parameters: SwapParameters, to: string): TransactionParameters {
+    const contractInterface =
+      parameters.methodName === 'deposit' || parameters.methodName === 'withdraw' ? WETH_INTERFACE : ROUTER_INTERFACE
+    return {
+      to: validateAndParseAddress(to),
+      data: contractInterface.encodeFunctionData(parameters.methodName, parameters.args),
+      value: parameters.value
+    }
+  }
 }
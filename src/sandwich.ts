@@ -0,0 +1,205 @@
+import JSBI from 'jsbi'
+
+import { ONE, THREE, TradeType, TWO, ZERO } from './constants'
+import { Currency, CurrencyAmount, Percent, Route, Token, TokenAmount, Trade } from './entities'
+
+/**
+ * The most an attacker can extract from a trade by sandwiching it, i.e. trading in front of it along its route and
+ * trading back right after it, without making it revert.
+ */
+export interface SandwichExposure {
+  /**
+   * The largest front-run the trade still executes after at the allowed slippage, in the input token of the route.
+   */
+  maximumFrontRunAmount: TokenAmount
+  /**
+   * The front-run the attacker profits the most from, in the input token of the route.
+   */
+  frontRunAmount: TokenAmount
+  /**
+   * What the attacker ends up with after trading back, less the front-run, in the input token of the route.
+   */
+  attackerProfit: TokenAmount
+  /**
+   * How much less output the trade receives for exact in trades, or how much more input it spends for exact out trades,
+   * because of the attack.
+   */
+  victimLoss: CurrencyAmount
+  /**
+   * The attacker's trade in front of the trade, undefined if no attack is profitable.
+   */
+  frontRunTrade?: Trade
+  /**
+   * The trade as it executes after the front-run, undefined if no attack is profitable.
+   */
+  victimTrade?: Trade
+  /**
+   * The attacker's trade back after the trade, undefined if no attack is profitable.
+   */
+  backRunTrade?: Trade
+}
+
+interface Attack {
+  frontRunTrade: Trade
+  victimTrade: Trade
+  backRunTrade?: Trade
+  profit?: JSBI
+}
+
+function amountOf(currency: Currency, raw: JSBI): CurrencyAmount {
+  return currency instanceof Token ? new TokenAmount(currency, raw) : CurrencyAmount.native(currency, raw)
+}
+
+/**
+ * Returns whether the trade executes at the allowed slippage of the original trade
+ */
+function isWithinSlippage(trade: Trade, victimTrade: Trade, allowedSlippage: Percent): boolean {
+  return trade.tradeType === TradeType.EXACT_INPUT
+    ? !victimTrade.outputAmount.lessThan(trade.minimumAmountOut(allowedSlippage))
+    : !victimTrade.inputAmount.greaterThan(trade.maximumAmountIn(allowedSlippage))
+}
+
+/**
+ * Returns the attack with the given front-run, undefined if the front-run cannot execute or the trade would revert
+ * after it. The back-run and profit are left undefined if the attacker cannot trade back.
+ */
+function attackWith(trade: Trade, frontRunAmount: JSBI, allowedSlippage: Percent): Attack | undefined {
+  const { route } = trade
+  let frontRunTrade: Trade, victimTrade: Trade
+  try {
+    frontRunTrade = Trade.exactIn(new Route(route.pairs, route.path[0]), new TokenAmount(route.path[0], frontRunAmount))
+    const pairs = frontRunTrade.applyToPairs(route.pairs)
+    victimTrade = new Trade(
+      new Route(pairs, route.input, route.output),
+      trade.tradeType === TradeType.EXACT_INPUT ? trade.inputAmount : trade.outputAmount,
+      trade.tradeType
+    )
+  } catch (error) {
+    if (error.isInsufficientInputAmountError || error.isInsufficientReservesError || error.isTradeNotSupportedError) {
+      return undefined
+    }
+    throw error
+  }
+  if (!isWithinSlippage(trade, victimTrade, allowedSlippage)) return undefined
+
+  try {
+    const backRunTrade = Trade.exactIn(
+      new Route(
+        victimTrade.applyToPairs(frontRunTrade.nextPairs).reverse(),
+        route.path[route.path.length - 1],
+        route.path[0]
+      ),
+      frontRunTrade.outputAmount
+    )
+    return {
+      frontRunTrade,
+      victimTrade,
+      backRunTrade,
+      profit: JSBI.subtract(backRunTrade.outputAmount.raw, frontRunAmount)
+    }
+  } catch (error) {
+    if (error.isInsufficientInputAmountError || error.isTradeNotSupportedError) {
+      return { frontRunTrade, victimTrade }
+    }
+    throw error
+  }
+}
+
+// whether the first attack is more profitable than the second, attacks without a back-run being the least profitable
+function isMoreProfitable(a: Attack | undefined, b: Attack | undefined): boolean {
+  if (a?.profit === undefined) return false
+  if (b?.profit === undefined) return true
+  return JSBI.greaterThan(a.profit, b.profit)
+}
+
+/**
+ * Has static methods for estimating how much a trade is exposed to sandwich attacks.
+ */
+export abstract class Sandwich {
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {}
+
+  /**
+   * Finds the largest front-run the trade still executes after at the allowed slippage, then the front-run up to it
+   * the attacker profits the most from, using the same pair math as the trade. The attacker is assumed to front-run
+   * along the trade's route and to trade the whole front-run output back along it right after the trade.
+   * @param trade the trade to estimate the exposure of
+   * @param allowedSlippage the slippage tolerance the trade is sent with
+   */
+  public static exposure(trade: Trade, allowedSlippage: Percent): SandwichExposure {
+    const tokenIn = trade.route.path[0]
+    const noAttack: SandwichExposure = {
+      maximumFrontRunAmount: new TokenAmount(tokenIn, ZERO),
+      frontRunAmount: new TokenAmount(tokenIn, ZERO),
+      attackerProfit: new TokenAmount(tokenIn, ZERO),
+      victimLoss: amountOf(
+        trade.tradeType === TradeType.EXACT_INPUT ? trade.outputAmount.currency : trade.inputAmount.currency,
+        ZERO
+      )
+    }
+    // wraps and unwraps do not move any price
+    if (trade.route.pairs.length === 0) return noAttack
+
+    // the trade executes after front-runs up to some size, so double the size until it does not, then bisect
+    const executes = (amount: JSBI) => attackWith(trade, amount, allowedSlippage) !== undefined
+    let low = ZERO
+    let high = JSBI.greaterThan(trade.inputAmount.raw, ZERO) ? trade.inputAmount.raw : ONE
+    while (executes(high)) {
+      low = high
+      high = JSBI.multiply(high, TWO)
+      // the front-run would drain the route, so the trade is not exposed to a larger one
+      if (JSBI.greaterThan(high, JSBI.exponentiate(TWO, JSBI.BigInt(128)))) break
+    }
+    while (JSBI.greaterThan(JSBI.subtract(high, low), ONE)) {
+      const middle = JSBI.divide(JSBI.add(low, high), TWO)
+      if (executes(middle)) {
+        low = middle
+      } else {
+        high = middle
+      }
+    }
+    const maximumFrontRunAmount = low
+    if (JSBI.equal(maximumFrontRunAmount, ZERO)) return noAttack
+
+    // the profit rises with the front-run until the price moved by it costs the attacker more than the trade moves back
+    let left = ONE
+    let right = maximumFrontRunAmount
+    while (JSBI.greaterThan(JSBI.subtract(right, left), TWO)) {
+      const third = JSBI.divide(JSBI.subtract(right, left), THREE)
+      const leftThird = JSBI.add(left, third)
+      const rightThird = JSBI.subtract(right, third)
+      if (
+        isMoreProfitable(attackWith(trade, rightThird, allowedSlippage), attackWith(trade, leftThird, allowedSlippage))
+      ) {
+        left = leftThird
+      } else {
+        right = rightThird
+      }
+    }
+    let best: Attack | undefined
+    for (let amount = left; JSBI.lessThanOrEqual(amount, right); amount = JSBI.add(amount, ONE)) {
+      const attack = attackWith(trade, amount, allowedSlippage)
+      if (best === undefined || isMoreProfitable(attack, best)) best = attack
+    }
+    const largest = attackWith(trade, maximumFrontRunAmount, allowedSlippage)
+    if (isMoreProfitable(largest, best)) best = largest
+
+    if (best?.profit === undefined || !JSBI.greaterThan(best.profit, ZERO)) {
+      return { ...noAttack, maximumFrontRunAmount: new TokenAmount(tokenIn, maximumFrontRunAmount) }
+    }
+    return {
+      maximumFrontRunAmount: new TokenAmount(tokenIn, maximumFrontRunAmount),
+      frontRunAmount: best.frontRunTrade.inputAmount as TokenAmount,
+      attackerProfit: new TokenAmount(tokenIn, best.profit),
+      victimLoss:
+        trade.tradeType === TradeType.EXACT_INPUT
+          ? trade.outputAmount.subtract(best.victimTrade.outputAmount)
+          : best.victimTrade.inputAmount.subtract(trade.inputAmount),
+      frontRunTrade: best.frontRunTrade,
+      victimTrade: best.victimTrade,
+      backRunTrade: best.backRunTrade
+    }
+  }
+}
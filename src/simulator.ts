@@ -0,0 +1,132 @@
+import invariant from 'tiny-invariant'
+
+import { TradeType } from './constants'
+import { AmountLimitError } from './errors'
+import { CurrencyAmount, currencyEquals, Pair, Route, Trade } from './entities'
+
+/**
+ * A swap to replay, in the order it executes.
+ */
+export interface SwapStep {
+  /**
+   * The route of the swap. Its pairs are matched by address against the pairs as they are when the swap executes.
+   */
+  route: Route
+  /**
+   * The exact input amount for exact in swaps, or the exact output amount for exact out swaps.
+   */
+  amount: CurrencyAmount
+  /**
+   * The type of the swap, either exact in or exact out.
+   */
+  tradeType: TradeType
+  /**
+   * The minimum output amount for exact in swaps, or the maximum input amount for exact out swaps, past which the
+   * swap reverts.
+   */
+  amountLimit?: CurrencyAmount
+}
+
+/**
+ * The outcome of one swap of a simulation.
+ */
+export interface SwapStepResult {
+  /**
+   * The trade as executed against the pairs left by the previous swaps, undefined if the swap reverted.
+   */
+  trade?: Trade
+  /**
+   * Why the swap reverted, e.g. an `InsufficientReservesError` or an `AmountLimitError`, undefined if it executed.
+   */
+  error?: Error
+  /**
+   * The pairs after the swap, unchanged if it reverted.
+   */
+  pairs: Pair[]
+}
+
+/**
+ * The outcome of replaying a list of swaps.
+ */
+export interface SimulationResult {
+  /**
+   * The outcome of each swap, in order.
+   */
+  steps: SwapStepResult[]
+  /**
+   * The pairs after all the swaps.
+   */
+  pairs: Pair[]
+}
+
+/**
+ * Returns the route through the same pairs as the given route, as they are in the given pairs
+ */
+function routeThrough(route: Route, pairs: Pair[]): Route {
+  return new Route(
+    route.pairs.map(routePair => {
+      const pair = pairs.find(pair => pair.liquidityToken.equals(routePair.liquidityToken))
+      invariant(pair !== undefined, 'PAIR')
+      return pair
+    }),
+    route.input,
+    route.output
+  )
+}
+
+/**
+ * Has static methods for replaying swaps against a set of pairs.
+ */
+export abstract class Simulator {
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {}
+
+  /**
+   * Executes the swaps one after another, each against the reserves left by the swaps before it. Swaps that would
+   * revert on chain, i.e. fail to trade or cross their amount limit, leave the pairs unchanged and do not stop the
+   * simulation.
+   * @param pairs the pairs before the first swap, which must include every pair the swaps go through
+   * @param steps the swaps to execute, in order
+   */
+  public static simulateSwaps(pairs: Pair[], steps: SwapStep[]): SimulationResult {
+    let currentPairs = pairs
+    const results: SwapStepResult[] = []
+    for (const step of steps) {
+      const route = routeThrough(step.route, currentPairs)
+
+      let trade: Trade
+      try {
+        trade = new Trade(route, step.amount, step.tradeType)
+      } catch (error) {
+        if (
+          error.isInsufficientInputAmountError ||
+          error.isInsufficientReservesError ||
+          error.isTradeNotSupportedError
+        ) {
+          results.push({ error, pairs: currentPairs })
+          continue
+        }
+        throw error
+      }
+
+      if (step.amountLimit !== undefined) {
+        const limitedAmount = step.tradeType === TradeType.EXACT_INPUT ? trade.outputAmount : trade.inputAmount
+        invariant(currencyEquals(step.amountLimit.currency, limitedAmount.currency), 'AMOUNT_LIMIT')
+        if (
+          step.tradeType === TradeType.EXACT_INPUT
+            ? limitedAmount.lessThan(step.amountLimit)
+            : limitedAmount.greaterThan(step.amountLimit)
+        ) {
+          results.push({ error: new AmountLimitError(), pairs: currentPairs })
+          continue
+        }
+      }
+
+      currentPairs = trade.applyToPairs(currentPairs)
+      results.push({ trade, pairs: currentPairs })
+    }
+    return { steps: results, pairs: currentPairs }
+  }
+}
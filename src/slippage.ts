@@ -0,0 +1,166 @@
+import JSBI from 'jsbi'
+import invariant from 'tiny-invariant'
+
+import { ONE, ZERO, _10000 } from './constants'
+import { Fraction, Pair, Percent, Token, TokenAmount, Trade } from './entities'
+
+/**
+ * Options for recommending a slippage tolerance.
+ */
+export interface SlippageOptions {
+  /**
+   * How much the price of the output may move on its own before the trade is included, e.g. for volatile tokens.
+   * Added to the tolerance as is.
+   */
+  volatility?: Percent
+  /**
+   * The size of the swap in front of the trade that each hop should tolerate, as a share of the amount the trade swaps
+   * into the hop. Defaults to all of it, i.e. a swap as large as the trade.
+   */
+  referenceSize?: Percent
+  /**
+   * The least tolerance to recommend.
+   */
+  minimum?: Percent
+  /**
+   * The most tolerance to recommend.
+   */
+  maximum?: Percent
+}
+
+/**
+ * How deep one hop of a trade is, i.e. how far a swap of the reference size moves its price.
+ */
+export interface HopDepth {
+  /**
+   * The pair of the hop.
+   */
+  pair: Pair
+  /**
+   * The amount swapped into the hop in front of the trade.
+   */
+  referenceAmount: TokenAmount
+  /**
+   * How far the reference swap moves the price of the hop's input token.
+   */
+  priceMove: Percent
+}
+
+/**
+ * A recommended slippage tolerance for a trade, and how it was derived.
+ */
+export interface SlippageRecommendation {
+  /**
+   * The slippage tolerance to pass to `Trade.minimumAmountOut`, `Trade.maximumAmountIn` or the router.
+   */
+  allowedSlippage: Percent
+  /**
+   * The depth of each hop of the trade, in the order of the route.
+   */
+  hops: HopDepth[]
+  /**
+   * Human readable explanations of each part of the tolerance.
+   */
+  reasons: string[]
+}
+
+const DEFAULT_REFERENCE_SIZE = new Percent('100', '100')
+const DEFAULT_MINIMUM = new Percent('10', '10000')
+const DEFAULT_MAXIMUM = new Percent('5', '100')
+
+/**
+ * Returns how far swapping the amount through the pair moves the price of the swapped token
+ */
+function priceMoveOf(pair: Pair, amountIn: TokenAmount): Percent {
+  const [, , nextPair] = pair.getOutputAmount(amountIn)
+  const before = pair.priceOf(amountIn.token).raw
+  const after = nextPair.priceOf(amountIn.token).raw
+  const move = (before.greaterThan(after) ? before.subtract(after) : after.subtract(before)).divide(before)
+  return new Percent(move.numerator, move.denominator)
+}
+
+function describePair(pair: Pair, token: Token): string {
+  const other = token.equals(pair.token0) ? pair.token1 : pair.token0
+  return `${token.symbol ?? token.address}/${other.symbol ?? other.address}`
+}
+
+/**
+ * Has static methods for recommending slippage tolerances.
+ */
+export abstract class Slippage {
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {}
+
+  /**
+   * Recommends a slippage tolerance for the trade from the depth of each hop of its route, so the trade survives a
+   * swap in front of it at every hop, sized from the amount the trade swaps into the hop. The same swap moves the price
+   * of a thin pair further than that of a deep one, so thin pairs get more tolerance and deep pairs less. The depth of
+   * xybk pairs comes from their boosted curve, so it reflects how much flatter it is near the balance point.
+   * @param trade the trade to recommend a tolerance for
+   * @param options options for the recommendation
+   */
+  public static recommend(
+    trade: Trade,
+    {
+      volatility = new Percent(ZERO),
+      referenceSize = DEFAULT_REFERENCE_SIZE,
+      minimum = DEFAULT_MINIMUM,
+      maximum = DEFAULT_MAXIMUM
+    }: SlippageOptions = {}
+  ): SlippageRecommendation {
+    invariant(!volatility.lessThan(ZERO), 'VOLATILITY')
+    invariant(referenceSize.greaterThan(ZERO), 'REFERENCE_SIZE')
+    invariant(!maximum.lessThan(minimum), 'MAXIMUM')
+
+    const hops: HopDepth[] = []
+    const reasons: string[] = []
+    let tolerance: Fraction = new Percent(ZERO)
+    // the amount the trade swaps into each hop, following the trade's own swaps along the route
+    let hopAmount = new TokenAmount(trade.route.path[0], trade.inputAmount.raw)
+    for (const [i, pair] of trade.route.pairs.entries()) {
+      const tokenIn = trade.route.path[i]
+      const referenceAmount = new TokenAmount(tokenIn, referenceSize.multiply(hopAmount.raw).quotient)
+      let priceMove: Percent
+      try {
+        priceMove = priceMoveOf(pair, referenceAmount)
+      } catch (error) {
+        // the reference swap is too small to move the price at all
+        if (error.isInsufficientInputAmountError) {
+          priceMove = new Percent(ZERO)
+        } else {
+          throw error
+        }
+      }
+      hops.push({ pair, referenceAmount, priceMove })
+      tolerance = tolerance.add(priceMove)
+      reasons.push(
+        `${describePair(pair, tokenIn)}: a swap of ${referenceAmount.toSignificant(2)} ${tokenIn.symbol ??
+          tokenIn.address} moves the price ${priceMove.toSignificant(2)}%` +
+          (pair.isXybk ? ` on the xybk curve boosted ${pair.boost0}/${pair.boost1}` : '')
+      )
+      hopAmount = pair.getOutputAmount(hopAmount)[0]
+    }
+
+    if (volatility.greaterThan(ZERO)) {
+      tolerance = tolerance.add(volatility)
+      reasons.push(`volatility: ${volatility.toSignificant(2)}% for the price moving before the trade is included`)
+    }
+
+    if (tolerance.lessThan(minimum)) {
+      tolerance = minimum
+      reasons.push(`minimum: raised to ${minimum.toSignificant(2)}%`)
+    } else if (tolerance.greaterThan(maximum)) {
+      tolerance = maximum
+      reasons.push(`maximum: capped at ${maximum.toSignificant(2)}% to limit exposure to sandwich attacks`)
+    }
+
+    // round up to a whole basis point, which is what users pick from
+    const basisPoints = tolerance.multiply(_10000)
+    const roundedBasisPoints = JSBI.greaterThan(basisPoints.remainder.numerator, ZERO)
+      ? JSBI.add(basisPoints.quotient, ONE)
+      : basisPoints.quotient
+    return { allowedSlippage: new Percent(roundedBasisPoints, _10000), hops, reasons }
+  }
+}
@@ -0,0 +1,212 @@
+import JSBI from 'jsbi'
+import invariant from 'tiny-invariant'
+
+import { ONE } from './constants'
+import { Fraction, Pair, Percent, Route, Token, TokenAmount, Trade } from './entities'
+import { LiquidityOptions, Router, SwapParameters } from './router'
+
+/**
+ * The amounts and router calls of adding liquidity to a pair from one of its tokens.
+ */
+export interface ZapIn {
+  /**
+   * The amount of the input token to swap for the other token of the pair.
+   */
+  swapAmount: TokenAmount
+  /**
+   * The amount of the other token received from the swap.
+   */
+  swapOutputAmount: TokenAmount
+  /**
+   * The least amount of the other token the swap returns for the allowed slippage, which the liquidity is added with.
+   */
+  minimumSwapOutputAmount: TokenAmount
+  /**
+   * The amount of the input token left after the swap.
+   */
+  remainingAmount: TokenAmount
+  /**
+   * The amount of the input token added as liquidity, matching the minimum swap output at the price of the pair after
+   * the swap, and at most the remaining amount.
+   */
+  addedAmount: TokenAmount
+  /**
+   * The pair after the swap, which the liquidity is added to.
+   */
+  nextPair: Pair
+  /**
+   * The liquidity tokens expected to be minted for the added amount and the minimum swap output.
+   */
+  liquidityMinted: TokenAmount
+  /**
+   * The call parameters of the swap, to be sent to the router first.
+   */
+  swapParameters: SwapParameters
+  /**
+   * The call parameters of adding the liquidity, to be sent to the router after the swap. They add no more than the
+   * swap guarantees, so they do not revert however the swap fills within the allowed slippage. What the swap returns
+   * above its minimum, and the remaining amount not added, stay with the sender.
+   */
+  addLiquidityParameters: SwapParameters
+}
+
+/**
+ * The amounts and router calls of removing liquidity from a pair into one of its tokens.
+ */
+export interface ZapOut {
+  /**
+   * The amount of the target token withdrawn from the pair.
+   */
+  withdrawnAmount: TokenAmount
+  /**
+   * The least amount of the target token the removal withdraws for the allowed slippage.
+   */
+  minimumWithdrawnAmount: TokenAmount
+  /**
+   * The amount of the other token swapped for the target token, the least the removal withdraws of it for the allowed
+   * slippage, so the swap never spends more than the sender holds. Any more withdrawn stays with the sender.
+   */
+  swapAmount: TokenAmount
+  /**
+   * The amount of the target token received from the swap.
+   */
+  swapOutputAmount: TokenAmount
+  /**
+   * The total amount of the target token received.
+   */
+  outputAmount: TokenAmount
+  /**
+   * The least total amount of the target token received for the allowed slippage.
+   */
+  minimumOutputAmount: TokenAmount
+  /**
+   * The percent difference between the value of both withdrawn amounts at the mid price and the output amount.
+   */
+  priceImpact: Percent
+  /**
+   * The pair after the liquidity is removed and the swap executes.
+   */
+  nextPair: Pair
+  /**
+   * The call parameters of removing the liquidity, to be sent to the router first.
+   */
+  removeLiquidityParameters: SwapParameters
+  /**
+   * The call parameters of the swap, to be sent to the router after the liquidity is removed.
+   */
+  swapParameters: SwapParameters
+}
+
+/**
+ * Returns the least amount the router accepts in place of the amount for the allowed slippage, as `Router` computes it
+ * for the minimums of its call parameters
+ */
+function minimumOf(amount: TokenAmount, allowedSlippage: Percent): TokenAmount {
+  return new TokenAmount(
+    amount.token,
+    new Fraction(ONE)
+      .add(allowedSlippage)
+      .invert()
+      .multiply(amount.raw).quotient
+  )
+}
+
+/**
+ * Has static methods for adding liquidity to a pair from a single token, by swapping part of it for the other token,
+ * and for removing liquidity into a single token, by swapping the other token for it.
+ */
+export abstract class Zap {
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {}
+
+  /**
+   * Splits the given amount into a swap through the pair and the liquidity added afterwards, so that as little as
+   * possible of either token is left over, and produces the router calls for both steps.
+   * @param pair the pair to add liquidity to
+   * @param amountIn the amount of one of the pair's tokens to add as liquidity
+   * @param totalSupply the total supply of the pair's liquidity token
+   * @param options options for the call parameters of both steps, the recipient receiving both the swap output and the
+   * liquidity tokens
+   */
+  public static zapIn(pair: Pair, amountIn: TokenAmount, totalSupply: TokenAmount, options: LiquidityOptions): ZapIn {
+    const [swapAmount, swapOutputAmount, nextPair] = pair.getZapInAmount(amountIn)
+    const remainingAmount = amountIn.subtract(swapAmount)
+    const trade = Trade.exactIn(new Route([pair], amountIn.token), swapAmount)
+    const minimumSwapOutputAmount = trade.minimumAmountOut(options.allowedSlippage) as TokenAmount
+
+    // the router adds liquidity at the ratio of the reserves, so add the input token at that ratio to the minimum output
+    const matchedAmount = JSBI.divide(
+      JSBI.multiply(minimumSwapOutputAmount.raw, nextPair.reserveOf(amountIn.token).raw),
+      nextPair.reserveOf(minimumSwapOutputAmount.token).raw
+    )
+    const addedAmount = JSBI.lessThan(matchedAmount, remainingAmount.raw)
+      ? new TokenAmount(amountIn.token, matchedAmount)
+      : remainingAmount
+    return {
+      swapAmount,
+      swapOutputAmount,
+      minimumSwapOutputAmount,
+      remainingAmount,
+      addedAmount,
+      nextPair,
+      liquidityMinted: nextPair.getLiquidityMinted(totalSupply, addedAmount, minimumSwapOutputAmount),
+      swapParameters: Router.swapCallParameters(trade, options),
+      addLiquidityParameters: Router.addLiquidityCallParameters(nextPair, addedAmount, minimumSwapOutputAmount, options)
+    }
+  }
+
+  /**
+   * Removes the liquidity from the pair and swaps the least amount of the other token the removal withdraws for the
+   * target token through the pair as it is after the liquidity is removed, and produces the router calls for both
+   * steps.
+   * @param pair the pair to remove liquidity from
+   * @param liquidity the amount of liquidity tokens to remove
+   * @param totalSupply the total supply of the pair's liquidity token
+   * @param tokenOut the token of the pair to receive
+   * @param options options for the call parameters of both steps, the recipient receiving both the withdrawn tokens and
+   * the swap output
+   */
+  public static zapOut(
+    pair: Pair,
+    liquidity: TokenAmount,
+    totalSupply: TokenAmount,
+    tokenOut: Token,
+    options: LiquidityOptions
+  ): ZapOut {
+    invariant(pair.involvesToken(tokenOut), 'TOKEN')
+    const tokenIn = tokenOut.equals(pair.token0) ? pair.token1 : pair.token0
+    const withdrawnAmount = pair.getLiquidityValue(tokenOut, totalSupply, liquidity)
+    const withdrawnOtherAmount = pair.getLiquidityValue(tokenIn, totalSupply, liquidity)
+    const burnedPair = pair.withReserves(
+      pair.reserveOf(tokenOut).subtract(withdrawnAmount),
+      pair.reserveOf(tokenIn).subtract(withdrawnOtherAmount)
+    )
+
+    // the removal may withdraw as little as its minimums, so swap and promise only what they guarantee
+    const minimumWithdrawnAmount = minimumOf(withdrawnAmount, options.allowedSlippage)
+    const swapAmount = minimumOf(withdrawnOtherAmount, options.allowedSlippage)
+    const trade = Trade.exactIn(new Route([burnedPair], tokenIn), swapAmount)
+    const [swapOutputAmount, , nextPair] = burnedPair.getOutputAmount(swapAmount)
+    const outputAmount = withdrawnAmount.add(swapOutputAmount)
+    const minimumSwapOutputAmount = trade.minimumAmountOut(options.allowedSlippage) as TokenAmount
+
+    // both withdrawn amounts valued in the target token at the mid price, i.e. without the swap moving the price
+    const idealOutputAmount = withdrawnAmount.add(trade.route.midPrice.quote(swapAmount) as TokenAmount)
+    const priceImpact = idealOutputAmount.subtract(outputAmount).divide(idealOutputAmount)
+
+    return {
+      withdrawnAmount,
+      minimumWithdrawnAmount,
+      swapAmount,
+      swapOutputAmount,
+      outputAmount,
+      minimumOutputAmount: minimumWithdrawnAmount.add(minimumSwapOutputAmount),
+      priceImpact: new Percent(priceImpact.numerator, priceImpact.denominator),
+      nextPair,
+      removeLiquidityParameters: Router.removeLiquidityCallParameters(pair, liquidity, totalSupply, options),
+      swapParameters: Router.swapCallParameters(trade, options)
+    }
+  }
+}
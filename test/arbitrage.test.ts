@@ -0,0 +1,99 @@
+import JSBI from 'jsbi'
+import { Arbitrage, ChainId, Pair, Percent, Token, TokenAmount, Trade, TradeState } from '../src'
+
+describe('Arbitrage', () => {
+  const token0 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000001', 18, 't0')
+  const token1 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000002', 18, 't1')
+  const token2 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000003', 18, 't2')
+
+  const pair = (a: TokenAmount, b: TokenAmount, isXybk: boolean = false): Pair =>
+    new Pair(a, b, isXybk, 30, isXybk ? 10 : 1, isXybk ? 10 : 1, TradeState.SELL_ALL)
+
+  const pair_0_1 = pair(
+    new TokenAmount(token0, '1000000000000000000000'),
+    new TokenAmount(token1, '1000000000000000000000')
+  )
+  const xybk_pair_1_2 = pair(
+    new TokenAmount(token1, '1000000000000000000000'),
+    new TokenAmount(token2, '1100000000000000000000'),
+    true
+  )
+  // token2 is worth 1.2 token0 here but less than 1 token0 through the other pairs
+  const pair_2_0 = pair(
+    new TokenAmount(token2, '1000000000000000000000'),
+    new TokenAmount(token0, '1200000000000000000000')
+  )
+  const pairs = [pair_0_1, xybk_pair_1_2, pair_2_0]
+
+  const options = {
+    allowedSlippage: new Percent('0', '100'),
+    ttl: 50,
+    recipient: '0x0000000000000000000000000000000000000004'
+  }
+
+  describe('#cycles', () => {
+    it('finds both directions of a cycle', () => {
+      const cycles = Arbitrage.cycles(pairs, token0)
+      expect(cycles.map(route => route.path)).toEqual([
+        [token0, token1, token2, token0],
+        [token0, token2, token1, token0]
+      ])
+      expect(cycles[0].input).toEqual(token0)
+      expect(cycles[0].output).toEqual(token0)
+    })
+
+    it('respects the hop limit', () => {
+      expect(Arbitrage.cycles(pairs, token0, 2)).toEqual([])
+      expect(() => Arbitrage.cycles(pairs, token0, 1)).toThrow('MAX_HOPS')
+    })
+  })
+
+  describe('#opportunities', () => {
+    it('trades the profitable direction at its most profitable input', () => {
+      const opportunities = Arbitrage.opportunities(pairs, token0, options)
+      expect(opportunities).toHaveLength(1)
+      const [{ trade, profit, swapParameters }] = opportunities
+      expect(trade.route.path).toEqual([token0, token1, token2, token0])
+      expect(profit).toEqual(trade.outputAmount.subtract(trade.inputAmount))
+      expect(profit.greaterThan('0')).toBe(true)
+
+      // one unit more or less earns no more
+      for (const amount of [
+        JSBI.add(trade.inputAmount.raw, JSBI.BigInt(1)),
+        JSBI.subtract(trade.inputAmount.raw, JSBI.BigInt(1))
+      ]) {
+        const other = Trade.exactIn(trade.route, new TokenAmount(token0, amount))
+        expect(other.outputAmount.subtract(other.inputAmount).greaterThan(profit)).toBe(false)
+      }
+
+      expect(swapParameters.methodName).toEqual('swapExactTokensForTokens')
+      expect(swapParameters.args[2]).toEqual([token0.address, token1.address, token2.address, token0.address])
+    })
+
+    it('finds nothing between pairs at the same prices', () => {
+      const pair_1_2 = pair(
+        new TokenAmount(token1, '1000000000000000000000'),
+        new TokenAmount(token2, '1000000000000000000000')
+      )
+      const balanced = pair(
+        new TokenAmount(token2, '1000000000000000000000'),
+        new TokenAmount(token0, '1000000000000000000000')
+      )
+      expect(Arbitrage.opportunities([pair_0_1, pair_1_2, balanced], token0, options)).toEqual([])
+    })
+
+    it('ranks opportunities by profit', () => {
+      const deeper = pair(
+        new TokenAmount(token2, '2000000000000000000000'),
+        new TokenAmount(token0, '2400000000000000000000')
+      )
+      // the two pairs between token2 and token0 are at the same price
+      expect(
+        Arbitrage.opportunities([pair_0_1, xybk_pair_1_2, pair_2_0, deeper], token0, options, { maxHops: 2 })
+      ).toEqual([])
+      const ranked = Arbitrage.opportunities([pair_0_1, xybk_pair_1_2, pair_2_0, deeper], token0, options)
+      expect(ranked.map(opportunity => opportunity.trade.route.pairs[2])).toEqual([deeper, pair_2_0])
+      expect(ranked[0].profit.greaterThan(ranked[1].profit)).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,70 @@
+import { getAddress } from '@ethersproject/address'
+import JSBI from 'jsbi'
+import { ChainId, Pair, PairGraph, Token, TokenAmount, Trade, TradeState } from '../../src'
+
+// deterministic pseudo random numbers, so every run searches the same pool set
+function lcg(seed: number): () => number {
+  let state = seed
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648
+    return state / 2147483648
+  }
+}
+
+function time<T>(fn: () => T): [T, number] {
+  const start = Date.now()
+  const result = fn()
+  return [result, Date.now() - start]
+}
+
+describe('PairGraph benchmark', () => {
+  const NUM_TOKENS = 400
+  const NUM_PAIRS = 3000
+  const random = lcg(42)
+
+  const tokens = Array.from(
+    { length: NUM_TOKENS },
+    (_, i) => new Token(ChainId.MAINNET, getAddress(`0x${(i + 1).toString(16).padStart(40, '0')}`), 18, `T${i}`)
+  )
+
+  const pairs: Pair[] = []
+  const seen: { [key: string]: boolean } = {}
+  while (pairs.length < NUM_PAIRS) {
+    // the first few tokens act as hubs, like the wrapped native token and stablecoins
+    const a = random() < 0.3 ? Math.floor(random() * 5) : Math.floor(random() * NUM_TOKENS)
+    const b = Math.floor(random() * NUM_TOKENS)
+    const key = a < b ? `${a}-${b}` : `${b}-${a}`
+    if (a === b || seen[key]) continue
+    seen[key] = true
+    const reserve = () => JSBI.multiply(JSBI.BigInt(Math.floor(random() * 1e6) + 1000), JSBI.BigInt(1e15))
+    pairs.push(
+      new Pair(
+        new TokenAmount(tokens[a], reserve()),
+        new TokenAmount(tokens[b], reserve()),
+        random() < 0.2,
+        30,
+        10,
+        10,
+        TradeState.SELL_ALL
+      )
+    )
+  }
+
+  it(`finds the same trades faster across ${NUM_PAIRS} pairs`, () => {
+    const amountIn = new TokenAmount(tokens[7], JSBI.BigInt(1e18))
+    const [graph, indexing] = time(() => new PairGraph(pairs))
+    const [graphTrades, graphSearch] = time(() => graph.bestTradeExactIn(amountIn, tokens[11], 10))
+    const [recursionTrades, recursionSearch] = time(() => Trade.bestTradeExactIn(pairs, amountIn, tokens[11], 10))
+
+    expect(graphTrades).not.toHaveLength(0)
+    expect(graphTrades).toEqual(recursionTrades)
+    console.log(
+      [
+        `bestTradeExactIn over ${NUM_PAIRS} pairs and ${NUM_TOKENS} tokens, 3 hops:`,
+        `  Trade.bestTradeExactIn      ${recursionSearch}ms`,
+        `  PairGraph.bestTradeExactIn  ${graphSearch}ms (+${indexing}ms indexing)`,
+        `  speedup                     ${(recursionSearch / Math.max(graphSearch + indexing, 1)).toFixed(1)}x`
+      ].join('\n')
+    )
+  })
+})
@@ -0,0 +1,122 @@
+import { BaseProvider } from '@ethersproject/providers'
+import {
+  Cache,
+  ChainId,
+  Fetcher,
+  getDeployment,
+  getPairAddressCache,
+  getTokenDecimalsCache,
+  LRUCache,
+  Pair,
+  pairAddressKey,
+  seedCache,
+  setPairAddressCache,
+  setTokenDecimalsCache,
+  Token,
+  tokenDecimalsKey
+} from '../src'
+
+describe('LRUCache', () => {
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('evicts the least recently used values beyond its size', () => {
+    const cache = new LRUCache<number>({ maxSize: 2 })
+    cache.set('a', 1)
+    cache.set('b', 2)
+    expect(cache.get('a')).toEqual(1)
+    cache.set('c', 3)
+    expect(cache.size).toEqual(2)
+    expect(cache.get('b')).toBeUndefined()
+    expect(cache.get('a')).toEqual(1)
+    expect(cache.get('c')).toEqual(3)
+  })
+
+  it('expires values after their time to live', () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000)
+    const cache = new LRUCache<number>({ ttl: 100 })
+    cache.set('a', 1)
+    now.mockReturnValue(1099)
+    expect(cache.get('a')).toEqual(1)
+    cache.set('b', 2)
+    now.mockReturnValue(1100)
+    expect(cache.get('a')).toBeUndefined()
+    expect(cache.toJSON()).toEqual({ b: 2 })
+  })
+
+  it('throws for invalid options', () => {
+    expect(() => new LRUCache({ maxSize: 0 })).toThrow('MAX_SIZE')
+    expect(() => new LRUCache({ ttl: 0 })).toThrow('TTL')
+  })
+
+  it('seeds from a JSON snapshot of another cache', () => {
+    const cache = new LRUCache<number>()
+    cache.set('a', 1)
+    cache.set('b', 2)
+    const seeded = new LRUCache<number>()
+    seedCache(seeded, JSON.parse(JSON.stringify(cache)))
+    expect(seeded.toJSON()).toEqual({ a: 1, b: 2 })
+  })
+})
+
+describe('caches', () => {
+  const token0 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000001', 18, 't0')
+  const token1 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000002', 18, 't1')
+
+  // an unbounded cache whose values can be inspected, standing in for a custom one
+  class RecordingCache<V> implements Cache<V> {
+    public readonly values: { [key: string]: V } = {}
+    public get(key: string): V | undefined {
+      return this.values[key]
+    }
+    public set(key: string, value: V): void {
+      this.values[key] = value
+    }
+  }
+
+  describe('pair address cache', () => {
+    const original = getPairAddressCache()
+    afterEach(() => setPairAddressCache(original))
+
+    it('is used by Pair.getAddress', () => {
+      const address = Pair.getAddress(token0, token1)
+      const cache = new RecordingCache<string>()
+      setPairAddressCache(cache)
+      expect(getPairAddressCache()).toBe(cache)
+      expect(Pair.getAddress(token1, token0)).toEqual(address)
+      expect(Object.values(cache.values)).toEqual([address])
+    })
+
+    it('returns seeded addresses without computing them', () => {
+      const cache = new LRUCache<string>()
+      seedCache(cache, {
+        [pairAddressKey(getDeployment(ChainId.MAINNET).factory, token0.address, token1.address)]: '0xseeded'
+      })
+      setPairAddressCache(cache)
+      expect(Pair.getAddress(token0, token1)).toEqual('0xseeded')
+    })
+  })
+
+  describe('token decimals cache', () => {
+    const original = getTokenDecimalsCache()
+    afterEach(() => setTokenDecimalsCache(original))
+
+    // the provider would fail any call
+    const provider = new BaseProvider({ chainId: ChainId.MAINNET, name: 'bnb' })
+
+    it('falls back to the decimals the fetcher ships with', async () => {
+      setTokenDecimalsCache(new LRUCache<number>())
+      const dgd = '0xE0B7927c4aF23765Cb51314A0E0521A9645F0E2A'
+      expect((await Fetcher.fetchTokenData(ChainId.MAINNET, dgd, provider)).decimals).toEqual(9)
+    })
+
+    it('returns seeded decimals without fetching them', async () => {
+      const cache = new LRUCache<number>()
+      seedCache(cache, { [tokenDecimalsKey(ChainId.MAINNET, token0.address)]: 6 })
+      setTokenDecimalsCache(cache)
+      const token = await Fetcher.fetchTokenData(ChainId.MAINNET, token0.address, provider)
+      expect(token.decimals).toEqual(6)
+    })
+  })
+})
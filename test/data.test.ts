@@ -17,4 +17,12 @@ describe.skip('data', () => {
     const pair = await Fetcher.fetchPairData(WETH[ChainId.BSCTESTNET], token, false, 30, 1, 1)
     expect(pair.liquidityToken.address).toEqual('0x8B22F85d0c844Cf793690F6D9DFE9F11Ddb35449')
   })
+
+  it('Pair:contract', async () => {
+    const token = new Token(ChainId.BSCTESTNET, '0xc7AD46e0b8a400Bb3C915120d284AafbA8fc4735', 18) // DAI
+    const pair = await Fetcher.fetchImpossiblePairData(WETH[ChainId.BSCTESTNET], token)
+    expect(pair.liquidityToken.address).toEqual('0x8B22F85d0c844Cf793690F6D9DFE9F11Ddb35449')
+    expect(pair.boost0).toBeGreaterThanOrEqual(1)
+    expect(pair.boost1).toBeGreaterThanOrEqual(1)
+  })
 })
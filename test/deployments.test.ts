@@ -0,0 +1,110 @@
+import { getAddress } from '@ethersproject/address'
+import JSBI from 'jsbi'
+import {
+  ChainId,
+  Currency,
+  CurrencyAmount,
+  ETHER,
+  FACTORY_ADDRESS,
+  getDeployment,
+  INIT_CODE_HASH,
+  MOVR,
+  Pair,
+  registerDeployment,
+  Route,
+  Token,
+  TokenAmount,
+  Trade,
+  TradeState,
+  WETH
+} from '../src'
+
+describe('deployments', () => {
+  const LOCAL_CHAIN_ID = 31337 as ChainId
+  const LOCAL_NATIVE = new Currency(18, 'ETH', 'Ether')
+  const LOCAL_WRAPPED_NATIVE = new Token(LOCAL_CHAIN_ID, '0x0000000000000000000000000000000000000009', 18, 'WETH')
+  const LOCAL_DEPLOYMENT = {
+    factory: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+    initCodeHash: '0x0000000000000000000000000000000000000000000000000000000000000001',
+    nativeCurrency: LOCAL_NATIVE,
+    wrappedNative: LOCAL_WRAPPED_NATIVE
+  }
+
+  describe('#getDeployment', () => {
+    it('returns the shipped deployments', () => {
+      expect(getDeployment(ChainId.MAINNET).factory).toEqual(getAddress(FACTORY_ADDRESS))
+      expect(getDeployment(ChainId.MOONRIVER).initCodeHash).toEqual(INIT_CODE_HASH)
+      expect(getDeployment(ChainId.MOONRIVER).wrappedNative).toEqual(WETH[ChainId.MOONRIVER])
+      expect(getDeployment(ChainId.MOONRIVER).nativeCurrency).toEqual(MOVR)
+      expect(getDeployment(ChainId.MAINNET).nativeCurrency).toEqual(ETHER)
+    })
+
+    it('computes the pair addresses of every shipped chain', () => {
+      const token = new Token(ChainId.BSCTESTNET, '0xc7AD46e0b8a400Bb3C915120d284AafbA8fc4735', 18) // DAI
+      expect(Pair.getAddress(WETH[ChainId.BSCTESTNET], token)).toEqual('0x80ff6C0117bFA454e591bB5981E0e968c50827e1')
+    })
+
+    it('throws for unknown chains', () => {
+      expect(() => getDeployment(1 as ChainId)).toThrow('DEPLOYMENT')
+    })
+  })
+
+  describe('#registerDeployment', () => {
+    it('throws if the wrapped native token is on another chain', () => {
+      expect(() =>
+        registerDeployment(LOCAL_CHAIN_ID, { ...LOCAL_DEPLOYMENT, wrappedNative: WETH[ChainId.MAINNET] })
+      ).toThrow('CHAIN_ID')
+    })
+
+    it('throws for an init code hash that is not 32 bytes of hex', () => {
+      expect(() => registerDeployment(LOCAL_CHAIN_ID, { ...LOCAL_DEPLOYMENT, initCodeHash: '0x01' })).toThrow(
+        'INIT_CODE_HASH'
+      )
+      expect(() =>
+        registerDeployment(LOCAL_CHAIN_ID, { ...LOCAL_DEPLOYMENT, initCodeHash: `0x${'zz'.repeat(32)}` })
+      ).toThrow('INIT_CODE_HASH')
+    })
+
+    it('throws if the native currency is a token', () => {
+      expect(() =>
+        registerDeployment(LOCAL_CHAIN_ID, { ...LOCAL_DEPLOYMENT, nativeCurrency: LOCAL_WRAPPED_NATIVE })
+      ).toThrow('NATIVE_CURRENCY')
+    })
+
+    it('throws for invalid addresses', () => {
+      expect(() => registerDeployment(LOCAL_CHAIN_ID, { ...LOCAL_DEPLOYMENT, factory: '0xabc' })).toThrow(
+        '0xabc is not a valid address.'
+      )
+    })
+
+    describe('on a registered chain', () => {
+      const token = new Token(LOCAL_CHAIN_ID, '0x0000000000000000000000000000000000000001', 18, 't0')
+      let pair: Pair
+
+      beforeAll(() => {
+        registerDeployment(LOCAL_CHAIN_ID, LOCAL_DEPLOYMENT)
+        pair = new Pair(
+          new TokenAmount(token, JSBI.BigInt(1000)),
+          new TokenAmount(LOCAL_WRAPPED_NATIVE, JSBI.BigInt(1000)),
+          false,
+          30,
+          1,
+          1,
+          TradeState.SELL_ALL
+        )
+      })
+
+      it('computes pair addresses from the registered factory', () => {
+        expect(Pair.getAddress(token, LOCAL_WRAPPED_NATIVE)).toEqual('0xAd71e732e8E1BA7916C696992157E70012F4F295')
+        expect(pair.liquidityToken.address).toEqual(Pair.getAddress(token, LOCAL_WRAPPED_NATIVE))
+      })
+
+      it('routes the registered native currency through the registered wrapped native token', () => {
+        const route = new Route([pair], LOCAL_NATIVE, token)
+        expect(route.path).toEqual([LOCAL_WRAPPED_NATIVE, token])
+        const trade = Trade.exactIn(route, CurrencyAmount.native(LOCAL_NATIVE, JSBI.BigInt(100)))
+        expect(trade.inputAmount.currency).toEqual(LOCAL_NATIVE)
+      })
+    })
+  })
+})
@@ -0,0 +1,131 @@
+import { Interface } from '@ethersproject/abi'
+import JSBI from 'jsbi'
+import ImpossiblePair from '../src/abis/ImpossiblePair.json'
+import { ChainId, Pair, PairEvents, PairLog, Token, TokenAmount, TradeState } from '../src'
+
+describe('PairEvents', () => {
+  const token0 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000001', 18, 't0')
+  const token1 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000002', 18, 't1')
+  const token2 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000003', 18, 't2')
+  const account = '0x0000000000000000000000000000000000000004'
+
+  const pair = new Pair(
+    new TokenAmount(token0, '1000'),
+    new TokenAmount(token1, '2000'),
+    true,
+    30,
+    10,
+    10,
+    TradeState.SELL_ALL
+  )
+  const otherPair = new Pair(
+    new TokenAmount(token1, '1000'),
+    new TokenAmount(token2, '1000'),
+    false,
+    30,
+    1,
+    1,
+    TradeState.SELL_ALL
+  )
+
+  const PAIR_INTERFACE = new Interface(ImpossiblePair)
+  function log(
+    name: string,
+    values: any[],
+    fields: Partial<PairLog> = {},
+    address = pair.liquidityToken.address
+  ): PairLog {
+    return { address, ...PAIR_INTERFACE.encodeEventLog(PAIR_INTERFACE.getEvent(name), values), ...fields }
+  }
+
+  describe('#decode', () => {
+    it('decodes swaps', () => {
+      expect(PairEvents.decode(log('Swap', [account, 100, 0, 0, 180, account], { blockNumber: 7 }))).toEqual({
+        name: 'Swap',
+        address: pair.liquidityToken.address,
+        blockNumber: 7,
+        transactionHash: undefined,
+        logIndex: undefined,
+        sender: account,
+        amount0In: JSBI.BigInt(100),
+        amount1In: JSBI.BigInt(0),
+        amount0Out: JSBI.BigInt(0),
+        amount1Out: JSBI.BigInt(180),
+        to: account
+      })
+    })
+
+    it('decodes boost updates into a ramp', () => {
+      expect(PairEvents.decode(log('UpdatedBoost', [10, 10, 20, 5, 100, 200]))).toMatchObject({
+        name: 'UpdatedBoost',
+        boostRamp: { oldBoost0: 10, oldBoost1: 10, newBoost0: 20, newBoost1: 5, startBlock: 100, endBlock: 200 }
+      })
+    })
+
+    it('returns undefined for other events', () => {
+      const transfer = new Interface(['event Transfer(address indexed from, address indexed to, uint256 value)'])
+      expect(
+        PairEvents.decode({
+          address: pair.liquidityToken.address,
+          ...transfer.encodeEventLog(transfer.getEvent('Transfer'), [account, account, 1])
+        })
+      ).toBeUndefined()
+    })
+  })
+
+  describe('#apply', () => {
+    const apply = (name: string, values: any[], fields: Partial<PairLog> = {}) =>
+      PairEvents.apply(pair, PairEvents.decode(log(name, values, fields))!)
+
+    it('moves the reserves by swaps, mints and burns', () => {
+      const swapped = apply('Swap', [account, 100, 0, 0, 180, account])
+      expect([swapped.reserve0.raw, swapped.reserve1.raw]).toEqual([JSBI.BigInt(1100), JSBI.BigInt(1820)])
+      const minted = apply('Mint', [account, 10, 20])
+      expect([minted.reserve0.raw, minted.reserve1.raw]).toEqual([JSBI.BigInt(1010), JSBI.BigInt(2020)])
+      const burned = apply('Burn', [account, 10, 20, account])
+      expect([burned.reserve0.raw, burned.reserve1.raw]).toEqual([JSBI.BigInt(990), JSBI.BigInt(1980)])
+      expect(burned.boost0).toEqual(10)
+    })
+
+    it('sets the reserves on syncs', () => {
+      const synced = apply('Sync', [5, 6])
+      expect([synced.reserve0.raw, synced.reserve1.raw]).toEqual([JSBI.BigInt(5), JSBI.BigInt(6)])
+    })
+
+    it('updates the settings', () => {
+      expect(apply('UpdatedTradeFees', [30, 5]).fee).toEqual(5)
+      expect(apply('UpdatedTradeState', [TradeState.SELL_TOKEN_0]).tradeState).toEqual(TradeState.SELL_TOKEN_0)
+      const uni = apply('ChangeInvariant', [false, 1, 1])
+      expect([uni.isXybk, uni.boost0, uni.boost1]).toEqual([false, 1, 1])
+    })
+
+    it('ramps the boosts from the block of the update', () => {
+      const ramping = apply('UpdatedBoost', [10, 10, 20, 30, 100, 200], { blockNumber: 150 })
+      expect([ramping.boost0, ramping.boost1]).toEqual([15, 20])
+      const swapped = PairEvents.apply(
+        ramping,
+        PairEvents.decode(log('Swap', [account, 100, 0, 0, 180, account], { blockNumber: 200 }))!
+      )
+      expect([swapped.boost0, swapped.boost1]).toEqual([20, 30])
+    })
+
+    it('throws for events of other pairs', () => {
+      expect(() =>
+        PairEvents.apply(pair, PairEvents.decode(log('Sync', [5, 6], {}, otherPair.liquidityToken.address))!)
+      ).toThrow('PAIR')
+    })
+  })
+
+  describe('#applyLogs', () => {
+    it('does not apply amounts the sync before them already set', () => {
+      const logs = [
+        log('Sync', [1100, 1820], { transactionHash: '0x01' }),
+        log('Swap', [account, 100, 0, 0, 180, account], { transactionHash: '0x01' }),
+        log('Sync', [1, 1], { transactionHash: '0x02' }, otherPair.liquidityToken.address),
+        log('Mint', [account, 10, 20], { transactionHash: '0x03' })
+      ]
+      const next = PairEvents.applyLogs(pair, logs)
+      expect([next.reserve0.raw, next.reserve1.raw]).toEqual([JSBI.BigInt(1110), JSBI.BigInt(1840)])
+    })
+  })
+})
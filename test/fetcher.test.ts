@@ -0,0 +1,239 @@
+import { Interface } from '@ethersproject/abi'
+import { getAddress } from '@ethersproject/address'
+import { BaseProvider, Network } from '@ethersproject/providers'
+import ERC20 from '../src/abis/ERC20.json'
+import ImpossiblePair from '../src/abis/ImpossiblePair.json'
+import Multicall3 from '../src/abis/Multicall3.json'
+import { CallFailedError, ChainId, Fetcher, MULTICALL_ADDRESS, Pair, Token, TradeState } from '../src'
+
+const MULTICALL_INTERFACE = new Interface(Multicall3)
+const CONTRACT_INTERFACE = new Interface([...ERC20, ...ImpossiblePair])
+
+type ContractState = { [address: string]: { [method: string]: any[] } }
+
+/**
+ * Answers calls from the given contract state, or its state at past blocks, without a node. A method that is missing
+ * from the state of its contract reverts. The latest block is the one after the last block of the history.
+ */
+class LocalProvider extends BaseProvider {
+  public calls = 0
+  public multicalls = 0
+
+  public constructor(
+    private readonly contracts: ContractState,
+    private readonly history: { [blockNumber: number]: ContractState } = {}
+  ) {
+    super({ chainId: ChainId.MAINNET, name: 'bnb' })
+  }
+
+  public async detectNetwork(): Promise<Network> {
+    return { chainId: ChainId.MAINNET, name: 'bnb' }
+  }
+
+  public async perform(method: string, params: any): Promise<any> {
+    if (method === 'getBlockNumber') return Math.max(0, ...Object.keys(this.history).map(Number)) + 1
+    expect(method).toEqual('call')
+    const contracts = params.blockTag === 'latest' ? this.contracts : this.history[parseInt(params.blockTag, 16)] ?? {}
+    const answer = (target: string, callData: string): string | undefined => {
+      const fragment = CONTRACT_INTERFACE.getFunction(callData.slice(0, 10))
+      const values = contracts[getAddress(target)]?.[fragment.name]
+      return values === undefined ? undefined : CONTRACT_INTERFACE.encodeFunctionResult(fragment, values)
+    }
+    if (getAddress(params.transaction.to) !== MULTICALL_ADDRESS) {
+      this.calls++
+      const returnData = answer(params.transaction.to, params.transaction.data)
+      if (returnData === undefined) throw new Error('reverted')
+      return returnData
+    }
+    this.multicalls++
+    const [calls] = MULTICALL_INTERFACE.decodeFunctionData('aggregate3', params.transaction.data)
+    const results = calls.map(({ target, callData }: { target: string; callData: string }) => {
+      const returnData = answer(target, callData)
+      return returnData === undefined ? { success: false, returnData: '0x' } : { success: true, returnData }
+    })
+    return MULTICALL_INTERFACE.encodeFunctionResult('aggregate3', [results])
+  }
+}
+
+describe('Fetcher', () => {
+  const DAI = '0x6B175474E89094C44Da98b954EedeAC495271d0F'
+  const DGD = '0xE0B7927c4aF23765Cb51314A0E0521A9645F0E2A' // decimals are cached
+  const MISSING = '0x0000000000000000000000000000000000000009'
+
+  const token0 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000001', 18, 't0')
+  const token1 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000002', 18, 't1')
+  const token2 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000003', 18, 't2')
+
+  describe('#fetchImpossiblePairData', () => {
+    it('reads the reserves and settings from the pair contract', async () => {
+      const provider = new LocalProvider({
+        [Pair.getAddress(token0, token1)]: {
+          getReserves: [1000, 2000],
+          getPairSettings: [30, TradeState.SELL_TOKEN_0, true],
+          calcBoost: [20, 10]
+        }
+      })
+      const pair = await Fetcher.fetchImpossiblePairData(token1, token0, provider)
+      expect([pair.reserve0.raw.toString(), pair.reserve1.raw.toString()]).toEqual(['1000', '2000'])
+      expect([pair.isXybk, pair.fee, pair.boost0, pair.boost1, pair.tradeState]).toEqual([
+        true,
+        30,
+        20,
+        10,
+        TradeState.SELL_TOKEN_0
+      ])
+    })
+
+    it('fails if the pair does not exist', async () => {
+      await expect(Fetcher.fetchImpossiblePairData(token0, token1, new LocalProvider({}))).rejects.toThrow()
+    })
+  })
+
+  describe('#fetchTokensData', () => {
+    it('fetches every token in one call and fails tokens on their own', async () => {
+      const provider = new LocalProvider({
+        [DAI]: { decimals: [18], symbol: ['DAI'], name: ['Dai Stablecoin'] },
+        [DGD]: { symbol: ['DGD'] }
+      })
+      const [dai, dgd, missing, invalid] = await Fetcher.fetchTokensData(
+        ChainId.MAINNET,
+        [DAI, DGD, MISSING, '0xabc'],
+        provider
+      )
+      expect(provider.multicalls).toEqual(1)
+      expect(dai).toEqual({ result: new Token(ChainId.MAINNET, DAI, 18, 'DAI', 'Dai Stablecoin') })
+      expect(dgd).toEqual({ result: new Token(ChainId.MAINNET, DGD, 9, 'DGD') })
+      expect(missing.result).toBeUndefined()
+      expect(missing.error).toBeInstanceOf(CallFailedError)
+      expect(missing.error!.message).toEqual(`decimals failed on ${MISSING}`)
+      expect(invalid.error!.message).toContain('0xabc is not a valid address.')
+    })
+
+    it('fetches the tokens at a block without using the latest cached decimals', async () => {
+      const provider = new LocalProvider(
+        { [DAI]: { decimals: [18] } },
+        { 100: { [DAI]: { decimals: [6], symbol: ['DAI'] } } }
+      )
+      const [dai, dgd] = await Fetcher.fetchTokensData(ChainId.MAINNET, [DAI, DGD], provider, 100)
+      expect(dai).toEqual({ result: new Token(ChainId.MAINNET, DAI, 6, 'DAI') })
+      // DGD has no decimals method at any block
+      expect(dgd).toEqual({ result: new Token(ChainId.MAINNET, DGD, 9) })
+      expect(await Fetcher.fetchTokenData(ChainId.MAINNET, DAI, provider, 'DAI', undefined, '0x64')).toEqual(
+        new Token(ChainId.MAINNET, DAI, 6, 'DAI')
+      )
+      expect(provider.calls).toEqual(0)
+      expect(await Fetcher.fetchTokenData(ChainId.MAINNET, DAI, provider)).toEqual(new Token(ChainId.MAINNET, DAI, 18))
+    })
+  })
+
+  describe('#fetchImpossiblePairsData', () => {
+    it('fetches the reserves and settings of every pair in one call', async () => {
+      const provider = new LocalProvider({
+        [Pair.getAddress(token0, token1)]: {
+          getReserves: [1000, 2000],
+          getPairSettings: [30, TradeState.SELL_TOKEN_0, true],
+          calcBoost: [20, 10]
+        }
+      })
+      const [pair, missing] = await Fetcher.fetchImpossiblePairsData(
+        [
+          [token1, token0],
+          [token0, token2]
+        ],
+        provider
+      )
+      expect(provider.multicalls).toEqual(1)
+      const { result } = pair
+      expect([result!.reserve0.raw.toString(), result!.reserve1.raw.toString()]).toEqual(['1000', '2000'])
+      expect([result!.isXybk, result!.fee, result!.boost0, result!.boost1, result!.tradeState]).toEqual([
+        true,
+        30,
+        20,
+        10,
+        TradeState.SELL_TOKEN_0
+      ])
+      expect(missing.error).toBeInstanceOf(CallFailedError)
+    })
+
+    it('throws for no pairs', async () => {
+      await expect(Fetcher.fetchImpossiblePairsData([])).rejects.toThrow('PAIRS')
+    })
+
+    it('fetches the pairs at a block and caches them by block', async () => {
+      const address = Pair.getAddress(token0, token1)
+      const provider = new LocalProvider(
+        {
+          [address]: {
+            getReserves: [1000, 2000],
+            getPairSettings: [30, TradeState.SELL_ALL, true],
+            calcBoost: [20, 10]
+          }
+        },
+        {
+          200: {
+            [address]: {
+              getReserves: [500, 700],
+              getPairSettings: [15, TradeState.SELL_TOKEN_1, false],
+              calcBoost: [1, 1]
+            }
+          }
+        }
+      )
+      const [{ result }] = await Fetcher.fetchImpossiblePairsData([[token0, token1]], provider, 200)
+      expect([result!.reserve0.raw.toString(), result!.reserve1.raw.toString()]).toEqual(['500', '700'])
+      expect([result!.isXybk, result!.fee, result!.boost0, result!.boost1, result!.tradeState]).toEqual([
+        false,
+        15,
+        1,
+        1,
+        TradeState.SELL_TOKEN_1
+      ])
+      expect(result!.currentBlock).toEqual(200)
+
+      const [{ result: cached }] = await Fetcher.fetchImpossiblePairsData([[token1, token0]], provider, 200)
+      expect(cached).toEqual(result)
+      expect(provider.multicalls).toEqual(1)
+      expect(await Fetcher.fetchImpossiblePairData(token0, token1, provider, 200)).toEqual(result)
+      expect(provider.calls).toEqual(0)
+
+      const latest = await Fetcher.fetchImpossiblePairData(token0, token1, provider)
+      expect([latest.reserve0.raw.toString(), latest.fee, latest.currentBlock]).toEqual(['1000', 30, undefined])
+      const [{ result: latestBatched }] = await Fetcher.fetchImpossiblePairsData([[token0, token1]], provider, 'latest')
+      expect(latestBatched).toEqual(latest)
+      expect(provider.multicalls).toEqual(2)
+    })
+
+    it('does not cache the pairs fetched at a block counted back from the latest', async () => {
+      const provider = new LocalProvider(
+        {},
+        {
+          300: {
+            [Pair.getAddress(token0, token2)]: {
+              getReserves: [500, 700],
+              getPairSettings: [30, TradeState.SELL_ALL, false],
+              calcBoost: [1, 1]
+            }
+          }
+        }
+      )
+      const [{ result }] = await Fetcher.fetchImpossiblePairsData([[token0, token2]], provider, -1)
+      expect([result!.reserve0.raw.toString(), result!.reserve1.raw.toString()]).toEqual(['500', '700'])
+      expect(result!.currentBlock).toBeUndefined()
+      await Fetcher.fetchImpossiblePairsData([[token0, token2]], provider, -1)
+      expect(provider.multicalls).toEqual(2)
+    })
+
+    it('throws for pairs on different chains', async () => {
+      const other = new Token(ChainId.BSCTESTNET, '0x0000000000000000000000000000000000000002', 18, 't1')
+      await expect(
+        Fetcher.fetchImpossiblePairsData(
+          [
+            [token0, token1],
+            [token2, other]
+          ],
+          new LocalProvider({})
+        )
+      ).rejects.toThrow('CHAIN_ID')
+    })
+  })
+})
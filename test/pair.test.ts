@@ -1,6 +1,18 @@
 // TODO: maximum amount transfer - take from bounds + hardstops
 
-import { ChainId, Token, Pair, TokenAmount, WETH, Price, TradeState } from '../src'
+import {
+  ChainId,
+  Token,
+  Pair,
+  TokenAmount,
+  WETH,
+  Price,
+  TradeState,
+  BoostRamp,
+  InsufficientInputAmountError,
+  InsufficientReservesError,
+  TradeNotSupportedError
+} from '../src'
 import JSBI from 'jsbi'
 
 const BasicPair = (a: TokenAmount, b: TokenAmount): Pair => {
@@ -426,4 +438,315 @@ describe('Pair', () => {
       })
     })
   })
+  describe('quotes', () => {
+    const pair = new Pair(
+      new TokenAmount(DAI, '98000000000000000000'),
+      new TokenAmount(USDC, '100000000000000000000'),
+      true,
+      30,
+      28,
+      11,
+      TradeState.SELL_ALL
+    )
+
+    it('labels the getOutputAmount results', () => {
+      const amountIn = new TokenAmount(DAI, '10000000000000000000')
+      const [amountOut, uncappedAmountOut, nextPair] = pair.getOutputAmount(amountIn)
+      expect(pair.getOutputQuote(amountIn)).toMatchObject({
+        inputAmount: amountIn,
+        outputAmount: amountOut,
+        uncappedOutputAmount: uncappedAmountOut,
+        feeAmount: new TokenAmount(DAI, '30000000000000000'),
+        nextPair,
+        isTwoPhase: true
+      })
+    })
+
+    it('labels the getInputAmount results', () => {
+      const amountOut = new TokenAmount(USDC, '9941982512178805534')
+      const [amountIn, nextPair] = pair.getInputAmount(amountOut)
+      const quote = pair.getInputQuote(amountOut)
+      expect(quote.inputAmount).toEqual(amountIn)
+      expect(quote.outputAmount).toEqual(amountOut)
+      expect(quote.uncappedOutputAmount).toEqual(amountOut)
+      expect(quote.feeAmount.raw).toEqual(JSBI.divide(JSBI.multiply(amountIn.raw, JSBI.BigInt(30)), JSBI.BigInt(10000)))
+      expect(quote.nextPair).toEqual(nextPair)
+      expect(quote.isTwoPhase).toBe(true)
+    })
+
+    it('prices swaps that stay on one side of the balance point in one phase', () => {
+      expect(pair.getOutputQuote(new TokenAmount(USDC, '100000000000000000')).isTwoPhase).toBe(false)
+      expect(pair.getInputQuote(new TokenAmount(DAI, '100000000000000000')).isTwoPhase).toBe(false)
+      expect(
+        BasicPair(new TokenAmount(DAI, '1000'), new TokenAmount(USDC, '1000')).getOutputQuote(
+          new TokenAmount(DAI, '500')
+        ).isTwoPhase
+      ).toBe(false)
+    })
+
+    it('splits a swap across the balance point into a leg at each boost', () => {
+      const amountIn = new TokenAmount(DAI, '10000000000000000000')
+      const quote = pair.getOutputQuote(amountIn)
+      expect(quote.legs).toHaveLength(2)
+      expect(quote.legs.map(leg => leg.boost)).toEqual([11, 28])
+      expect(quote.legs[0].outputAmount.raw).toEqual(JSBI.subtract(pair.reserve1.raw, pair.sqrtK))
+      expect(quote.legs[0].inputAmount.add(quote.legs[1].inputAmount)).toEqual(amountIn)
+      expect(quote.legs[0].outputAmount.add(quote.legs[1].outputAmount)).toEqual(quote.outputAmount)
+      expect(quote.crossoverPrice?.toSignificant(6)).toEqual('1')
+
+      const inputQuote = pair.getInputQuote(quote.outputAmount)
+      expect(inputQuote.legs.map(leg => leg.boost)).toEqual([11, 28])
+      expect(inputQuote.legs[0]).toEqual(quote.legs[0])
+      expect(inputQuote.legs[0].inputAmount.add(inputQuote.legs[1].inputAmount)).toEqual(inputQuote.inputAmount)
+    })
+
+    it('prices a swap on one side of the balance point in a single leg', () => {
+      const amountIn = new TokenAmount(USDC, '100000000000000000')
+      const quote = pair.getOutputQuote(amountIn)
+      expect(quote.legs).toEqual([{ inputAmount: amountIn, outputAmount: quote.outputAmount, boost: 11 }])
+      expect(quote.crossoverPrice).toBeUndefined()
+      expect(
+        BasicPair(new TokenAmount(DAI, '1000'), new TokenAmount(USDC, '1000')).getInputQuote(
+          new TokenAmount(USDC, '10')
+        ).legs[0].boost
+      ).toEqual(1)
+    })
+
+    it('throws for the whole reserve of a uni pair', () => {
+      const uniPair = BasicPair(new TokenAmount(DAI, '1000'), new TokenAmount(USDC, '1000'))
+      expect(() => uniPair.getInputQuote(new TokenAmount(USDC, '1000'))).toThrow(InsufficientReservesError)
+    })
+
+    it('caps the output at the reserve', () => {
+      const quote = pair.getOutputQuote(new TokenAmount(DAI, '100000000000000000000000000'))
+      expect(quote.outputAmount.lessThan(quote.uncappedOutputAmount)).toBe(true)
+    })
+  })
+
+  describe('boost ramp', () => {
+    const ramp: BoostRamp = {
+      oldBoost0: 10,
+      oldBoost1: 10,
+      newBoost0: 30,
+      newBoost1: 12,
+      startBlock: 100,
+      endBlock: 200
+    }
+    const rampedPair = (currentBlock: number): Pair =>
+      Pair.fromBoostRamp(
+        new TokenAmount(DAI, '98000000000000000000'),
+        new TokenAmount(USDC, '100000000000000000000'),
+        true,
+        30,
+        ramp,
+        currentBlock,
+        TradeState.SELL_ALL
+      )
+
+    it('uses the old boosts before the ramp starts', () => {
+      const pair = rampedPair(50)
+      expect([pair.boost0, pair.boost1]).toEqual([10, 10])
+    })
+
+    it('interpolates the boosts during the ramp', () => {
+      expect([rampedPair(150).boost0, rampedPair(150).boost1]).toEqual([20, 11])
+      expect([rampedPair(175).boost0, rampedPair(175).boost1]).toEqual([25, 11])
+    })
+
+    it('uses the new boosts after the ramp ends', () => {
+      const pair = rampedPair(250)
+      expect([pair.boost0, pair.boost1]).toEqual([30, 12])
+    })
+
+    it('quotes with the interpolated boosts', () => {
+      const fixed = new Pair(
+        new TokenAmount(DAI, '98000000000000000000'),
+        new TokenAmount(USDC, '100000000000000000000'),
+        true,
+        30,
+        20,
+        11,
+        TradeState.SELL_ALL
+      )
+      const pair = rampedPair(150)
+      const amountIn = new TokenAmount(DAI, '10000000000000000000')
+      expect(pair.sqrtK).toEqual(fixed.sqrtK)
+      expect(pair.token0Price).toEqual(fixed.token0Price)
+      expect(pair.getOutputAmount(amountIn)[0]).toEqual(fixed.getOutputAmount(amountIn)[0])
+      expect(pair.getInputAmount(new TokenAmount(USDC, '1000000000000000000'))[0]).toEqual(
+        fixed.getInputAmount(new TokenAmount(USDC, '1000000000000000000'))[0]
+      )
+    })
+
+    it('keeps the ramp on the next pair and can move to a later block', () => {
+      const [, , nextPair] = rampedPair(150).getOutputAmount(new TokenAmount(DAI, '10000000000000000000'))
+      expect(nextPair.boostRamp).toEqual(ramp)
+      expect(nextPair.currentBlock).toEqual(150)
+      expect(nextPair.atBlock(200).boost0).toEqual(30)
+    })
+
+    it('throws if the boosts do not match the ramp', () => {
+      expect(
+        () =>
+          new Pair(
+            new TokenAmount(DAI, '100'),
+            new TokenAmount(USDC, '100'),
+            true,
+            30,
+            10,
+            10,
+            TradeState.SELL_ALL,
+            ramp,
+            150
+          )
+      ).toThrow('BOOST_RAMP')
+    })
+  })
+
+  describe('#getInputAmountForPrice', () => {
+    // the amount reaches the target and one unit less does not
+    function expectLeast(pair: Pair, target: Price, amountIn: TokenAmount, nextPair: Pair): void {
+      const fallsTo = amountIn.token.equals(pair.token0)
+      const reached = (price: Price) => (fallsTo ? !price.greaterThan(target.raw) : !price.lessThan(target.raw))
+      expect(reached(nextPair.token0Price)).toBe(true)
+      const [, , lessPair] = pair.getOutputAmount(
+        new TokenAmount(amountIn.token, JSBI.subtract(amountIn.raw, JSBI.BigInt(1)))
+      )
+      expect(reached(lessPair.token0Price)).toBe(false)
+    }
+
+    const uniPair = BasicPair(
+      new TokenAmount(DAI, '1000000000000000000000'),
+      new TokenAmount(USDC, '1000000000000000000000')
+    )
+
+    it('sells token0 to lower its price', () => {
+      const target = new Price(DAI, USDC, '10', '9')
+      const [amountIn, nextPair] = uniPair.getInputAmountForPrice(target)
+      expect(amountIn.token).toEqual(DAI)
+      expectLeast(uniPair, target, amountIn, nextPair)
+    })
+
+    it('sells token1 to raise the price of token0, given either way round', () => {
+      const [amountIn, nextPair] = uniPair.getInputAmountForPrice(new Price(DAI, USDC, '10', '11'))
+      expect(amountIn.token).toEqual(USDC)
+      expectLeast(uniPair, new Price(DAI, USDC, '10', '11'), amountIn, nextPair)
+      expect(uniPair.getInputAmountForPrice(new Price(USDC, DAI, '11', '10'))).toEqual([amountIn, nextPair])
+    })
+
+    it('follows the xybk curve across the sqrtK switch', () => {
+      const pair = new Pair(
+        new TokenAmount(DAI, '98000000000000000000'),
+        new TokenAmount(USDC, '100000000000000000000'),
+        true,
+        30,
+        28,
+        11,
+        TradeState.SELL_ALL
+      )
+      const target = new Price(DAI, USDC, '1000', '999')
+      const [amountIn, nextPair] = pair.getInputAmountForPrice(target)
+      expect(amountIn.token).toEqual(DAI)
+      expect(pair.getOutputQuote(amountIn).isTwoPhase).toBe(true)
+      expectLeast(pair, target, amountIn, nextPair)
+    })
+
+    it('returns a zero amount at the price', () => {
+      expect(uniPair.getInputAmountForPrice(new Price(DAI, USDC, '1', '1'))).toEqual([
+        new TokenAmount(DAI, '0'),
+        uniPair
+      ])
+    })
+
+    it('throws for a price of other tokens', () => {
+      expect(() => uniPair.getInputAmountForPrice(new Price(DAI, WETH[ChainId.MAINNET], '1', '1'))).toThrow('TOKEN')
+    })
+  })
+
+  describe('#getInputAmountForReserveRatio', () => {
+    it('moves the reserves of an xybk pair to the ratio', () => {
+      const pair = new Pair(
+        new TokenAmount(DAI, '98000000000000000000'),
+        new TokenAmount(USDC, '100000000000000000000'),
+        true,
+        30,
+        28,
+        11,
+        TradeState.SELL_ALL
+      )
+      const [amountIn, nextPair] = pair.getInputAmountForReserveRatio(new Price(DAI, USDC, '1', '1'))
+      expect(amountIn.token).toEqual(DAI)
+      expect(JSBI.greaterThanOrEqual(nextPair.reserve0.raw, nextPair.reserve1.raw)).toBe(true)
+      const [, , lessPair] = pair.getOutputAmount(new TokenAmount(DAI, JSBI.subtract(amountIn.raw, JSBI.BigInt(1))))
+      expect(JSBI.lessThan(lessPair.reserve0.raw, lessPair.reserve1.raw)).toBe(true)
+    })
+  })
+
+  describe('#getZapInAmount', () => {
+    // the rest of the input pairs with the output at the post swap ratio, and swapping one more unit would not
+    function expectBalanced(pair: Pair, amountIn: TokenAmount): void {
+      const [swapAmount, amountOut, nextPair] = pair.getZapInAmount(amountIn)
+      const tokenOut = amountOut.token
+      const remaining = amountIn.subtract(swapAmount)
+      expect(
+        JSBI.greaterThanOrEqual(
+          JSBI.multiply(remaining.raw, nextPair.reserveOf(tokenOut).raw),
+          JSBI.multiply(amountOut.raw, nextPair.reserveOf(amountIn.token).raw)
+        )
+      ).toBe(true)
+      const [moreOut, , morePair] = pair.getOutputAmount(
+        new TokenAmount(amountIn.token, JSBI.add(swapAmount.raw, JSBI.BigInt(1)))
+      )
+      expect(
+        JSBI.lessThan(
+          JSBI.multiply(JSBI.subtract(remaining.raw, JSBI.BigInt(1)), morePair.reserveOf(tokenOut).raw),
+          JSBI.multiply(moreOut.raw, morePair.reserveOf(amountIn.token).raw)
+        )
+      ).toBe(true)
+    }
+
+    it('swaps about half of the input into a uni pair', () => {
+      const pair = BasicPair(
+        new TokenAmount(USDC, '1000000000000000000000'),
+        new TokenAmount(DAI, '1000000000000000000000')
+      )
+      const amountIn = new TokenAmount(DAI, '10000000000000000000')
+      const [swapAmount] = pair.getZapInAmount(amountIn)
+      // closed form for uni pairs with a 0.3% fee
+      expect(swapAmount.raw.toString()).toEqual('4995054722102270504')
+      expectBalanced(pair, amountIn)
+    })
+
+    it('accounts for the boosts and the sqrtK switch of xybk pairs', () => {
+      const pair = new Pair(
+        new TokenAmount(DAI, '98000000000000000000'),
+        new TokenAmount(USDC, '100000000000000000000'),
+        true,
+        30,
+        28,
+        11,
+        TradeState.SELL_ALL
+      )
+      expectBalanced(pair, new TokenAmount(DAI, '50000000000000000000'))
+      expectBalanced(pair, new TokenAmount(USDC, '50000000000000000000'))
+    })
+
+    it('throws if the amount is too small to swap', () => {
+      const pair = BasicPair(new TokenAmount(USDC, '1000'), new TokenAmount(DAI, '1000'))
+      expect(() => pair.getZapInAmount(new TokenAmount(DAI, '1'))).toThrow(InsufficientInputAmountError)
+    })
+
+    it('throws if the pair does not allow the swap', () => {
+      const pair = new Pair(
+        new TokenAmount(USDC, '1000'),
+        new TokenAmount(DAI, '1000'),
+        false,
+        30,
+        1,
+        1,
+        TradeState.SELL_NONE
+      )
+      expect(() => pair.getZapInAmount(new TokenAmount(DAI, '100'))).toThrow(TradeNotSupportedError)
+    })
+  })
 })
@@ -0,0 +1,114 @@
+import JSBI from 'jsbi'
+import {
+  ChainId,
+  Currency,
+  CurrencyAmount,
+  ETHER,
+  Pair,
+  PairGraph,
+  Token,
+  TokenAmount,
+  Trade,
+  TradeState,
+  WETH
+} from '../src'
+
+const BasicPair = (a: TokenAmount, b: TokenAmount, tradeState: TradeState = TradeState.SELL_ALL): Pair => {
+  return new Pair(a, b, false, 30, 1, 1, tradeState)
+}
+
+describe('PairGraph', () => {
+  const token0 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000001', 18, 't0')
+  const token1 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000002', 18, 't1')
+  const token2 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000003', 18, 't2')
+  const token3 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000004', 18, 't3')
+  const token4 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000005', 18, 't4')
+
+  const pair_0_1 = BasicPair(new TokenAmount(token0, JSBI.BigInt(1000)), new TokenAmount(token1, JSBI.BigInt(1000)))
+  const pair_0_2 = BasicPair(new TokenAmount(token0, JSBI.BigInt(1000)), new TokenAmount(token2, JSBI.BigInt(1100)))
+  const pair_0_3 = BasicPair(new TokenAmount(token0, JSBI.BigInt(1000)), new TokenAmount(token3, JSBI.BigInt(900)))
+  const pair_1_2 = BasicPair(new TokenAmount(token1, JSBI.BigInt(1200)), new TokenAmount(token2, JSBI.BigInt(1000)))
+  const pair_1_3 = BasicPair(new TokenAmount(token1, JSBI.BigInt(1200)), new TokenAmount(token3, JSBI.BigInt(1300)))
+  const pair_3_4 = BasicPair(new TokenAmount(token3, JSBI.BigInt(1000)), new TokenAmount(token4, JSBI.BigInt(1000)))
+  const pair_weth_0 = BasicPair(
+    new TokenAmount(WETH[ChainId.MAINNET], JSBI.BigInt(1000)),
+    new TokenAmount(token0, JSBI.BigInt(1000))
+  )
+  const empty_pair_0_1 = BasicPair(new TokenAmount(token0, JSBI.BigInt(0)), new TokenAmount(token1, JSBI.BigInt(0)))
+
+  const pairs = [pair_0_1, pair_0_2, pair_0_3, pair_1_2, pair_1_3, pair_3_4, pair_weth_0, empty_pair_0_1]
+  const graph = new PairGraph(pairs)
+
+  describe('#pairsOf', () => {
+    it('returns the pairs of the token in order', () => {
+      expect(graph.pairsOf(token3)).toEqual([pair_0_3, pair_1_3, pair_3_4])
+    })
+
+    it('returns no pairs for unknown tokens', () => {
+      expect(graph.pairsOf(WETH[ChainId.BSCTESTNET])).toEqual([])
+    })
+  })
+
+  describe('#bestTradeExactIn', () => {
+    const cases: [CurrencyAmount, Currency][] = [
+      [new TokenAmount(token0, JSBI.BigInt(100)), token2],
+      [new TokenAmount(token0, JSBI.BigInt(100)), token4],
+      [new TokenAmount(token2, JSBI.BigInt(10)), token3],
+      [CurrencyAmount.ether(JSBI.BigInt(100)), token3],
+      [new TokenAmount(token3, JSBI.BigInt(100)), ETHER],
+      [CurrencyAmount.ether(JSBI.BigInt(100)), WETH[ChainId.MAINNET]]
+    ]
+
+    cases.forEach(([amountIn, currencyOut], i) => {
+      it(`matches Trade.bestTradeExactIn for case ${i}`, () => {
+        for (const maxHops of [1, 2, 3]) {
+          expect(graph.bestTradeExactIn(amountIn, currencyOut, 10, { maxHops, maxNumResults: 5 })).toEqual(
+            Trade.bestTradeExactIn(pairs, amountIn, currencyOut, 10, { maxHops, maxNumResults: 5 })
+          )
+        }
+        expect(graph.bestTradeExactIn(amountIn, currencyOut, 10, { maxHops: 3 })).not.toHaveLength(0)
+      })
+    })
+
+    it('throws with no pairs', () => {
+      expect(() => new PairGraph([]).bestTradeExactIn(new TokenAmount(token0, '100'), token2, 10)).toThrow('PAIRS')
+    })
+
+    it('skips pairs that do not allow the trade', () => {
+      const paused = BasicPair(
+        new TokenAmount(token0, JSBI.BigInt(1000)),
+        new TokenAmount(token1, JSBI.BigInt(1000)),
+        TradeState.SELL_NONE
+      )
+      const result = new PairGraph([paused, pair_0_2, pair_1_2]).bestTradeExactIn(
+        new TokenAmount(token0, JSBI.BigInt(100)),
+        token1,
+        10
+      )
+      expect(result).toHaveLength(1)
+      expect(result[0].route.pairs).toEqual([pair_0_2, pair_1_2])
+    })
+  })
+
+  describe('#bestTradeExactOut', () => {
+    const cases: [Currency, CurrencyAmount][] = [
+      [token0, new TokenAmount(token2, JSBI.BigInt(100))],
+      [token0, new TokenAmount(token4, JSBI.BigInt(100))],
+      [token2, new TokenAmount(token3, JSBI.BigInt(10))],
+      [ETHER, new TokenAmount(token3, JSBI.BigInt(100))],
+      [token3, CurrencyAmount.ether(JSBI.BigInt(100))],
+      [WETH[ChainId.MAINNET], CurrencyAmount.ether(JSBI.BigInt(100))]
+    ]
+
+    cases.forEach(([currencyIn, amountOut], i) => {
+      it(`matches Trade.bestTradeExactOut for case ${i}`, () => {
+        for (const maxHops of [1, 2, 3]) {
+          expect(graph.bestTradeExactOut(currencyIn, amountOut, { maxHops, maxNumResults: 5 })).toEqual(
+            Trade.bestTradeExactOut(pairs, currencyIn, amountOut, { maxHops, maxNumResults: 5 })
+          )
+        }
+        expect(graph.bestTradeExactOut(currencyIn, amountOut, { maxHops: 3 })).not.toHaveLength(0)
+      })
+    })
+  })
+})
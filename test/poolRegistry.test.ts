@@ -0,0 +1,139 @@
+import {
+  ChainId,
+  Pair,
+  PairGraph,
+  Percent,
+  PoolChange,
+  PoolRegistry,
+  PriceImpact,
+  Token,
+  TokenAmount,
+  Trade,
+  TradeNotSupportedError,
+  TradeState,
+  TradeType
+} from '../src'
+
+describe('PoolRegistry', () => {
+  const token0 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000001', 18, 't0')
+  const token1 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000002', 18, 't1')
+  const token2 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000003', 18, 't2')
+
+  const pair = (a: TokenAmount, b: TokenAmount): Pair => new Pair(a, b, false, 30, 1, 1, TradeState.SELL_ALL)
+  const pair_0_1 = pair(new TokenAmount(token0, '1000'), new TokenAmount(token1, '1000'))
+  const pair_1_2 = pair(new TokenAmount(token1, '1000'), new TokenAmount(token2, '1000'))
+  const pair_0_1_later = pair(new TokenAmount(token0, '1100'), new TokenAmount(token1, '910'))
+
+  it('holds the latest pool per address, indexed by token', () => {
+    const registry = new PoolRegistry([pair_0_1, pair_1_2])
+    expect(registry.pairs).toEqual([pair_0_1, pair_1_2])
+    expect(registry.pairsOf(token1)).toEqual([pair_0_1, pair_1_2])
+    expect(registry.pairsOf(token2)).toEqual([pair_1_2])
+
+    registry.update(10, [pair_0_1_later])
+    expect(registry.blockNumber).toEqual(10)
+    expect(registry.getPair(pair_0_1.liquidityToken.address)).toBe(pair_0_1_later)
+    expect(registry.pairsOf(token0)).toEqual([pair_0_1_later])
+  })
+
+  it('notifies subscribers of changes until they unsubscribe', () => {
+    const registry = new PoolRegistry([pair_0_1])
+    const changes: PoolChange[] = []
+    const unsubscribe = registry.subscribe(change => changes.push(change))
+    registry.update(10, [pair_0_1_later, pair_1_2])
+    expect(changes).toEqual([
+      { address: pair_0_1.liquidityToken.address, pair: pair_0_1_later, previous: pair_0_1, blockNumber: 10 },
+      { address: pair_1_2.liquidityToken.address, pair: pair_1_2, previous: undefined, blockNumber: 10 }
+    ])
+    unsubscribe()
+    registry.update(11, [pair_0_1])
+    expect(changes).toHaveLength(2)
+  })
+
+  it('throws for updates out of block order', () => {
+    const registry = new PoolRegistry()
+    registry.update(10, [pair_0_1])
+    expect(() => registry.update(9, [pair_0_1_later])).toThrow('BLOCK_NUMBER')
+  })
+
+  describe('#rollback', () => {
+    it('undoes the updates after the block', () => {
+      const registry = new PoolRegistry([pair_0_1])
+      registry.update(10, [pair_0_1_later])
+      registry.update(11, [pair_1_2])
+      const changes: PoolChange[] = []
+      registry.subscribe(change => changes.push(change))
+
+      registry.rollback(9)
+      expect(registry.pairs).toEqual([pair_0_1])
+      expect(registry.pairsOf(token2)).toEqual([])
+      expect(registry.blockNumber).toEqual(9)
+      expect(changes).toEqual([
+        { address: pair_1_2.liquidityToken.address, pair: undefined, previous: pair_1_2, blockNumber: 9 },
+        { address: pair_0_1.liquidityToken.address, pair: pair_0_1, previous: pair_0_1_later, blockNumber: 9 }
+      ])
+    })
+
+    it('throws past the history', () => {
+      const registry = new PoolRegistry([], 2)
+      registry.update(10, [pair_0_1])
+      registry.update(12, [pair_0_1_later])
+      registry.update(13, [pair_1_2])
+      expect(() => registry.rollback(9)).toThrow('HISTORY')
+      registry.rollback(10)
+      expect(registry.pairs).toEqual([pair_0_1])
+    })
+  })
+
+  describe('with the route finders', () => {
+    const amountIn = new TokenAmount(token0, '100')
+    const amountOut = new TokenAmount(token2, '10')
+
+    it('finds the same trades as over its pairs, through its token index', () => {
+      const registry = new PoolRegistry([pair_0_1, pair_1_2])
+      const pairsOf = jest.spyOn(registry, 'pairsOf')
+      expect(Trade.bestTradeExactIn(registry, amountIn, token2, 0)).toEqual(
+        Trade.bestTradeExactIn([pair_0_1, pair_1_2], amountIn, token2, 0)
+      )
+      expect(Trade.bestTradeExactOut(registry, token0, amountOut)).toEqual(
+        Trade.bestTradeExactOut([pair_0_1, pair_1_2], token0, amountOut)
+      )
+      expect(pairsOf).toHaveBeenCalledWith(token0)
+      expect(pairsOf).toHaveBeenCalledWith(token2)
+    })
+
+    it('fails as over its pairs when a pool does not support the trade', () => {
+      const paused = new Pair(
+        new TokenAmount(token0, '1000'),
+        new TokenAmount(token1, '1000'),
+        false,
+        30,
+        1,
+        1,
+        TradeState.SELL_NONE
+      )
+      const registry = new PoolRegistry([paused, pair_1_2])
+      expect(() => Trade.bestTradeExactIn([paused, pair_1_2], amountIn, token2, 0)).toThrow(TradeNotSupportedError)
+      expect(() => Trade.bestTradeExactIn(registry, amountIn, token2, 0)).toThrow(TradeNotSupportedError)
+    })
+
+    it('backs a pair graph that follows its updates', () => {
+      const registry = new PoolRegistry([pair_0_1, pair_1_2])
+      const graph = new PairGraph(registry)
+      expect(graph.pairsOf(token1)).toEqual([pair_0_1, pair_1_2])
+      registry.update(1, [pair_0_1_later])
+      expect(graph.pairs).toEqual([pair_0_1_later, pair_1_2])
+      expect(graph.bestTradeExactIn(amountIn, token2, 0)).toEqual(
+        new PairGraph([pair_0_1_later, pair_1_2]).bestTradeExactIn(amountIn, token2, 0)
+      )
+    })
+
+    it('can be passed to the price impact search', () => {
+      const registry = new PoolRegistry([pair_0_1, pair_1_2])
+      const maximumImpact = new Percent('5', '100')
+      expect(PriceImpact.largestBestTrade(registry, token0, token2, TradeType.EXACT_INPUT, maximumImpact)).toEqual(
+        PriceImpact.largestBestTrade([pair_0_1, pair_1_2], token0, token2, TradeType.EXACT_INPUT, maximumImpact)
+      )
+    })
+  })
+})
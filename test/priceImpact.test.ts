@@ -0,0 +1,111 @@
+import JSBI from 'jsbi'
+import {
+  ChainId,
+  ETHER,
+  Pair,
+  PairGraph,
+  Percent,
+  PriceImpact,
+  Route,
+  Token,
+  TokenAmount,
+  Trade,
+  TradeState,
+  TradeType,
+  WETH
+} from '../src'
+
+describe('PriceImpact', () => {
+  const token0 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000001', 18, 't0')
+  const token1 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000002', 18, 't1')
+  const token2 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000003', 18, 't2')
+
+  const pair = (a: TokenAmount, b: TokenAmount, tradeState: TradeState = TradeState.SELL_ALL): Pair =>
+    new Pair(a, b, false, 30, 1, 1, tradeState)
+
+  const pair_0_1 = pair(
+    new TokenAmount(token0, '1000000000000000000000'),
+    new TokenAmount(token1, '1000000000000000000000')
+  )
+  const pair_1_2 = pair(
+    new TokenAmount(token1, '2000000000000000000000'),
+    new TokenAmount(token2, '1000000000000000000000')
+  )
+  const cap = new Percent('1', '100')
+
+  // the amount of the trade is within the cap, and one unit more is not
+  function expectLargest(trade: Trade, cap: Percent): void {
+    expect(trade.priceImpact.greaterThan(cap)).toBe(false)
+    const more = (amount: JSBI) => JSBI.add(amount, JSBI.BigInt(1))
+    const next =
+      trade.tradeType === TradeType.EXACT_INPUT
+        ? Trade.exactIn(trade.route, new TokenAmount(trade.route.path[0], more(trade.inputAmount.raw)))
+        : Trade.exactOut(
+            trade.route,
+            new TokenAmount(trade.route.path[trade.route.path.length - 1], more(trade.outputAmount.raw))
+          )
+    expect(next.priceImpact.greaterThan(cap)).toBe(true)
+  }
+
+  describe('#largestTrade', () => {
+    it('finds the largest input within the cap', () => {
+      const trade = PriceImpact.largestTrade(new Route([pair_0_1], token0), TradeType.EXACT_INPUT, cap)!
+      expect(trade.tradeType).toEqual(TradeType.EXACT_INPUT)
+      // the fee takes 0.3%, so the reserve can move about 0.7%
+      expect(trade.inputAmount.toFixed(0)).toEqual('7')
+      expectLargest(trade, cap)
+    })
+
+    it('finds the largest output within the cap across hops', () => {
+      const trade = PriceImpact.largestTrade(new Route([pair_0_1, pair_1_2], token0), TradeType.EXACT_OUTPUT, cap)!
+      expect(trade.tradeType).toEqual(TradeType.EXACT_OUTPUT)
+      expectLargest(trade, cap)
+    })
+
+    it('returns undefined if even the smallest trade exceeds the cap', () => {
+      expect(
+        PriceImpact.largestTrade(new Route([pair_0_1], token0), TradeType.EXACT_INPUT, new Percent('1', '1000'))
+      ).toBeUndefined()
+    })
+
+    it('returns undefined if the route does not support trading', () => {
+      const paused = pair(
+        new TokenAmount(token0, '1000000000000000000000'),
+        new TokenAmount(token1, '1000000000000000000000'),
+        TradeState.SELL_NONE
+      )
+      expect(PriceImpact.largestTrade(new Route([paused], token0), TradeType.EXACT_INPUT, cap)).toBeUndefined()
+      expect(PriceImpact.largestTrade(new Route([paused], token0), TradeType.EXACT_OUTPUT, cap)).toBeUndefined()
+    })
+
+    it('throws for a negative cap', () => {
+      expect(() =>
+        PriceImpact.largestTrade(new Route([pair_0_1], token0), TradeType.EXACT_INPUT, new Percent('-1', '100'))
+      ).toThrow('PRICE_IMPACT')
+    })
+
+    it('throws for a route that wraps the native currency', () => {
+      expect(() =>
+        PriceImpact.largestTrade(new Route([], ETHER, WETH[ChainId.MAINNET]), TradeType.EXACT_INPUT, cap)
+      ).toThrow('PAIRS')
+    })
+  })
+
+  describe('#largestBestTrade', () => {
+    it('finds the largest amount the best route takes within the cap', () => {
+      const pairs = [pair_0_1, pair_1_2]
+      const trade = PriceImpact.largestBestTrade(pairs, token0, token2, TradeType.EXACT_INPUT, cap)!
+      expect(trade.route.pairs).toEqual(pairs)
+      expectLargest(trade, cap)
+      expect(PriceImpact.largestBestTrade(new PairGraph(pairs), token0, token2, TradeType.EXACT_INPUT, cap)).toEqual(
+        trade
+      )
+    })
+
+    it('finds the largest output', () => {
+      const trade = PriceImpact.largestBestTrade([pair_0_1, pair_1_2], token2, token1, TradeType.EXACT_OUTPUT, cap)!
+      expect(trade.route.pairs).toEqual([pair_1_2])
+      expectLargest(trade, cap)
+    })
+  })
+})
@@ -1,4 +1,4 @@
-import { Token, WETH, ChainId, Pair, TokenAmount, Route, ETHER, TradeState } from '../src'
+import { Token, WETH, ChainId, Pair, TokenAmount, Route, ETHER, MOVR, TradeState, WrapType } from '../src'
 
 const BasicPair = (a: TokenAmount, b: TokenAmount): Pair => {
   return new Pair(a, b, false, 30, 1, 1, TradeState.SELL_ALL)
@@ -41,4 +41,36 @@ describe('Route', () => {
     expect(route.input).toEqual(token0)
     expect(route.output).toEqual(ETHER)
   })
+
+  it('wraps and unwraps ether without pairs', () => {
+    const wrap = new Route([], ETHER, weth)
+    expect(wrap.path).toEqual([weth])
+    expect(wrap.chainId).toEqual(ChainId.MAINNET)
+    expect(wrap.wrapType).toEqual(WrapType.WRAP)
+    expect(wrap.midPrice.raw.toSignificant(6)).toEqual('1')
+    expect(new Route([], weth, ETHER).wrapType).toEqual(WrapType.UNWRAP)
+    expect(new Route([pair_0_weth], ETHER).wrapType).toEqual(WrapType.NOT_APPLICABLE)
+  })
+
+  it('throws without pairs unless wrapping or unwrapping', () => {
+    expect(() => new Route([], ETHER)).toThrow('PAIRS')
+    expect(() => new Route([], token0, ETHER)).toThrow('PAIRS')
+    expect(() => new Route([], weth, weth)).toThrow('PAIRS')
+    expect(() => new Route([], MOVR, weth)).toThrow('PAIRS')
+  })
+
+  describe('on moonriver', () => {
+    const token = new Token(ChainId.MOONRIVER, '0x0000000000000000000000000000000000000001', 18, 't0')
+    const pair_0_wmovr = BasicPair(new TokenAmount(token, '100'), new TokenAmount(WETH[ChainId.MOONRIVER], '100'))
+
+    it('supports movr input and output', () => {
+      expect(new Route([pair_0_wmovr], MOVR).path).toEqual([WETH[ChainId.MOONRIVER], token])
+      expect(new Route([pair_0_wmovr], token, MOVR).output).toEqual(MOVR)
+    })
+
+    it('does not accept the native currency of another chain', () => {
+      expect(() => new Route([pair_0_wmovr], ETHER)).toThrow('INPUT')
+      expect(() => new Route([pair_0_wmovr], token, ETHER)).toThrow('OUTPUT')
+    })
+  })
 })
@@ -1,8 +1,10 @@
+import { Interface } from '@ethersproject/abi'
 import invariant from 'tiny-invariant'
 import {
   ChainId,
   CurrencyAmount,
   ETHER,
+  MOVR,
   Pair,
   Percent,
   Route,
@@ -14,6 +16,7 @@ import {
   TradeState
 } from '../src'
 import JSBI from 'jsbi'
+import ImpossibleRouter from '../src/abis/ImpossibleRouter.json'
 
 function checkDeadline(deadline: string[] | string): void {
   expect(typeof deadline).toBe('string')
@@ -65,6 +68,18 @@ describe('Router', () => {
         expect(result.value).toEqual('0x0')
         checkDeadline(result.args[result.args.length - 1])
       })
+      it('movr to token on moonriver', () => {
+        const token = new Token(ChainId.MOONRIVER, '0x0000000000000000000000000000000000000001', 18, 't0')
+        const pair = BasicPair(new TokenAmount(WETH[ChainId.MOONRIVER], '1000'), new TokenAmount(token, '1000'))
+        const result = Router.swapCallParameters(
+          Trade.exactIn(new Route([pair], MOVR, token), CurrencyAmount.native(MOVR, JSBI.BigInt(100))),
+          { ttl: 50, recipient: '0x0000000000000000000000000000000000000004', allowedSlippage: new Percent('1', '100') }
+        )
+        expect(result.methodName).toEqual('swapExactETHForTokens')
+        expect(result.args[0]).toEqual('0x59')
+        expect(result.args[1]).toEqual([WETH[ChainId.MOONRIVER].address, token.address])
+        expect(result.value).toEqual('0x64')
+      })
       it('token0 to token1', () => {
         const result = Router.swapCallParameters(
           Trade.exactIn(new Route([pair_0_1], token0, token1), new TokenAmount(token0, JSBI.BigInt(100))),
@@ -81,6 +96,22 @@ describe('Router', () => {
         checkDeadline(result.args[result.args.length - 1])
       })
     })
+    describe('wrap', () => {
+      it('ether to weth', () => {
+        const result = Router.swapCallParameters(
+          Trade.exactIn(new Route([], ETHER, WETH[ChainId.MAINNET]), CurrencyAmount.ether(JSBI.BigInt(100))),
+          { ttl: 50, recipient: '0x0000000000000000000000000000000000000004', allowedSlippage: new Percent('1', '100') }
+        )
+        expect(result).toEqual({ methodName: 'deposit', args: [], value: '0x64' })
+      })
+      it('weth to ether', () => {
+        const result = Router.swapCallParameters(
+          Trade.exactOut(new Route([], WETH[ChainId.MAINNET], ETHER), CurrencyAmount.ether(JSBI.BigInt(100))),
+          { ttl: 50, recipient: '0x0000000000000000000000000000000000000004', allowedSlippage: new Percent('1', '100') }
+        )
+        expect(result).toEqual({ methodName: 'withdraw', args: ['0x64'], value: '0x0' })
+      })
+    })
     describe('exact out', () => {
       it('ether to token1', () => {
         const result = Router.swapCallParameters(
@@ -235,4 +266,178 @@ describe('Router', () => {
       })
     })
   })
+
+  describe('#addLiquidityCallParameters', () => {
+    const options = {
+      ttl: 50,
+      recipient: '0x0000000000000000000000000000000000000004',
+      allowedSlippage: new Percent('1', '100')
+    }
+
+    it('token0 and token1', () => {
+      const result = Router.addLiquidityCallParameters(
+        pair_0_1,
+        new TokenAmount(token1, JSBI.BigInt(200)),
+        new TokenAmount(token0, JSBI.BigInt(100)),
+        options
+      )
+      expect(result.methodName).toEqual('addLiquidity')
+      expect(result.args.slice(0, -1)).toEqual([
+        token1.address,
+        token0.address,
+        '0xc8',
+        '0x64',
+        '0xc6',
+        '0x63',
+        '0x0000000000000000000000000000000000000004'
+      ])
+      expect(result.value).toEqual('0x0')
+      checkDeadline(result.args[result.args.length - 1])
+    })
+    it('ether and token0', () => {
+      const result = Router.addLiquidityCallParameters(
+        pair_weth_0,
+        CurrencyAmount.ether(JSBI.BigInt(200)),
+        new TokenAmount(token0, JSBI.BigInt(100)),
+        options
+      )
+      expect(result.methodName).toEqual('addLiquidityETH')
+      expect(result.args.slice(0, -1)).toEqual([
+        token0.address,
+        '0x64',
+        '0x63',
+        '0xc6',
+        '0x0000000000000000000000000000000000000004'
+      ])
+      expect(result.value).toEqual('0xc8')
+      checkDeadline(result.args[result.args.length - 1])
+    })
+    it('throws if the amounts are not of the pair', () => {
+      expect(() =>
+        Router.addLiquidityCallParameters(
+          pair_0_1,
+          CurrencyAmount.ether(JSBI.BigInt(200)),
+          new TokenAmount(token0, JSBI.BigInt(100)),
+          options
+        )
+      ).toThrow('TOKEN')
+    })
+  })
+
+  describe('#removeLiquidityCallParameters', () => {
+    const options = {
+      ttl: 50,
+      recipient: '0x0000000000000000000000000000000000000004',
+      allowedSlippage: new Percent('1', '100')
+    }
+
+    it('token0 and token1', () => {
+      const result = Router.removeLiquidityCallParameters(
+        pair_0_1,
+        new TokenAmount(pair_0_1.liquidityToken, JSBI.BigInt(100)),
+        new TokenAmount(pair_0_1.liquidityToken, JSBI.BigInt(1000)),
+        options
+      )
+      expect(result.methodName).toEqual('removeLiquidity')
+      expect(result.args.slice(0, -1)).toEqual([
+        token0.address,
+        token1.address,
+        '0x64',
+        '0x63',
+        '0x63',
+        '0x0000000000000000000000000000000000000004'
+      ])
+      expect(result.value).toEqual('0x0')
+      checkDeadline(result.args[result.args.length - 1])
+    })
+    it('token0 and ether', () => {
+      const result = Router.removeLiquidityCallParameters(
+        pair_weth_0,
+        new TokenAmount(pair_weth_0.liquidityToken, JSBI.BigInt(100)),
+        new TokenAmount(pair_weth_0.liquidityToken, JSBI.BigInt(1000)),
+        { ...options, receiveEther: true }
+      )
+      expect(result.methodName).toEqual('removeLiquidityETH')
+      expect(result.args.slice(0, -1)).toEqual([
+        token0.address,
+        '0x64',
+        '0x63',
+        '0x63',
+        '0x0000000000000000000000000000000000000004'
+      ])
+      expect(result.value).toEqual('0x0')
+      checkDeadline(result.args[result.args.length - 1])
+    })
+    it('token0 and ether supporting fee on transfer', () => {
+      const result = Router.removeLiquidityCallParameters(
+        pair_weth_0,
+        new TokenAmount(pair_weth_0.liquidityToken, JSBI.BigInt(100)),
+        new TokenAmount(pair_weth_0.liquidityToken, JSBI.BigInt(1000)),
+        { ...options, receiveEther: true, feeOnTransfer: true }
+      )
+      expect(result.methodName).toEqual('removeLiquidityETHSupportingFeeOnTransferTokens')
+    })
+    it('throws if receiving ether from a pair without WETH', () => {
+      expect(() =>
+        Router.removeLiquidityCallParameters(
+          pair_0_1,
+          new TokenAmount(pair_0_1.liquidityToken, JSBI.BigInt(100)),
+          new TokenAmount(pair_0_1.liquidityToken, JSBI.BigInt(1000)),
+          { ...options, receiveEther: true }
+        )
+      ).toThrow('WETH')
+    })
+  })
+
+  describe('#encodeCallParameters', () => {
+    const routerInterface = new Interface(ImpossibleRouter)
+    const ROUTER = '0x0000000000000000000000000000000000000005'
+
+    it('encodes swap call parameters for the router', () => {
+      const parameters = Router.swapCallParameters(
+        Trade.exactIn(new Route([pair_weth_0, pair_0_1], ETHER, token1), CurrencyAmount.ether(JSBI.BigInt(100))),
+        { ttl: 50, recipient: '0x0000000000000000000000000000000000000004', allowedSlippage: new Percent('1', '100') }
+      )
+      const result = Router.encodeCallParameters(parameters, ROUTER)
+      expect(result.to).toEqual(ROUTER)
+      expect(result.value).toEqual('0x64')
+      const decoded = routerInterface.decodeFunctionData('swapExactETHForTokens', result.data)
+      expect(decoded.amountOutMin.toHexString()).toEqual('0x51')
+      expect(decoded.path).toEqual([WETH[ChainId.MAINNET].address, token0.address, token1.address])
+      expect(decoded.to).toEqual('0x0000000000000000000000000000000000000004')
+    })
+
+    it('encodes liquidity call parameters', () => {
+      const parameters = Router.removeLiquidityCallParameters(
+        pair_0_1,
+        new TokenAmount(pair_0_1.liquidityToken, JSBI.BigInt(100)),
+        new TokenAmount(pair_0_1.liquidityToken, JSBI.BigInt(1000)),
+        { ttl: 50, recipient: '0x0000000000000000000000000000000000000004', allowedSlippage: new Percent('1', '100') }
+      )
+      const result = Router.encodeCallParameters(parameters, ROUTER)
+      expect(result.to).toEqual(ROUTER)
+      expect(result.data.slice(0, 10)).toEqual(routerInterface.getSighash('removeLiquidity'))
+    })
+
+    it('throws for an invalid router', () => {
+      const parameters = Router.removeLiquidityCallParameters(
+        pair_0_1,
+        new TokenAmount(pair_0_1.liquidityToken, JSBI.BigInt(100)),
+        new TokenAmount(pair_0_1.liquidityToken, JSBI.BigInt(1000)),
+        { ttl: 50, recipient: '0x0000000000000000000000000000000000000004', allowedSlippage: new Percent('1', '100') }
+      )
+      expect(() => Router.encodeCallParameters(parameters, '0xabc')).toThrow('0xabc is not a valid address.')
+    })
+
+    it('encodes wrap call parameters for the wrapped native token', () => {
+      const parameters = Router.swapCallParameters(
+        Trade.exactIn(new Route([], WETH[ChainId.MAINNET], ETHER), new TokenAmount(WETH[ChainId.MAINNET], '100')),
+        { ttl: 50, recipient: '0x0000000000000000000000000000000000000004', allowedSlippage: new Percent('1', '100') }
+      )
+      const result = Router.encodeCallParameters(parameters, WETH[ChainId.MAINNET].address)
+      expect(result.to).toEqual(WETH[ChainId.MAINNET].address)
+      expect(result.data).toEqual(new Interface(['function withdraw(uint256)']).encodeFunctionData('withdraw', ['100']))
+      expect(result.value).toEqual('0x0')
+    })
+  })
 })
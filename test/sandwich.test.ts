@@ -0,0 +1,79 @@
+import JSBI from 'jsbi'
+import { ChainId, Pair, Percent, Route, Sandwich, Token, TokenAmount, Trade, TradeState } from '../src'
+
+describe('Sandwich', () => {
+  const token0 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000001', 18, 't0')
+  const token1 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000002', 18, 't1')
+  const token2 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000003', 18, 't2')
+
+  const pair_0_1 = new Pair(
+    new TokenAmount(token0, '1000000000000000000000'),
+    new TokenAmount(token1, '1000000000000000000000'),
+    false,
+    30,
+    1,
+    1,
+    TradeState.SELL_ALL
+  )
+  const xybk_pair_1_2 = new Pair(
+    new TokenAmount(token1, '1000000000000000000000'),
+    new TokenAmount(token2, '1100000000000000000000'),
+    true,
+    30,
+    10,
+    10,
+    TradeState.SELL_ALL
+  )
+
+  describe('#exposure', () => {
+    const trade = Trade.exactIn(new Route([pair_0_1], token0), new TokenAmount(token0, '10000000000000000000'))
+
+    it('finds a profitable attack the trade still executes after', () => {
+      const slippage = new Percent('5', '100')
+      const exposure = Sandwich.exposure(trade, slippage)
+      expect(exposure.attackerProfit.greaterThan('0')).toBe(true)
+      expect(exposure.victimTrade!.outputAmount.lessThan(trade.minimumAmountOut(slippage))).toBe(false)
+      expect(exposure.victimLoss).toEqual(trade.outputAmount.subtract(exposure.victimTrade!.outputAmount))
+      expect(exposure.attackerProfit.raw).toEqual(
+        JSBI.subtract(exposure.backRunTrade!.outputAmount.raw, exposure.frontRunTrade!.inputAmount.raw)
+      )
+      expect(exposure.frontRunAmount.greaterThan(exposure.maximumFrontRunAmount)).toBe(false)
+    })
+
+    it('makes the trade revert with a slightly larger front-run', () => {
+      const slippage = new Percent('5', '100')
+      const { maximumFrontRunAmount } = Sandwich.exposure(trade, slippage)
+      const frontRun = Trade.exactIn(
+        new Route([pair_0_1], token0),
+        maximumFrontRunAmount.add(new TokenAmount(token0, '1'))
+      )
+      const victimTrade = Trade.exactIn(new Route(frontRun.nextPairs, token0), trade.inputAmount)
+      expect(victimTrade.outputAmount.lessThan(trade.minimumAmountOut(slippage))).toBe(true)
+    })
+
+    it('grows with the allowed slippage', () => {
+      const tight = Sandwich.exposure(trade, new Percent('1', '100'))
+      const loose = Sandwich.exposure(trade, new Percent('10', '100'))
+      expect(loose.attackerProfit.greaterThan(tight.attackerProfit)).toBe(true)
+      expect(loose.victimLoss.greaterThan(tight.victimLoss)).toBe(true)
+    })
+
+    it('is not exposed without slippage', () => {
+      const exposure = Sandwich.exposure(trade, new Percent('0'))
+      expect(exposure.attackerProfit.raw).toEqual(JSBI.BigInt(0))
+      expect(exposure.frontRunTrade).toBeUndefined()
+    })
+
+    it('uses the xybk curve for multi hop exact out trades', () => {
+      const exactOut = Trade.exactOut(
+        new Route([pair_0_1, xybk_pair_1_2], token0),
+        new TokenAmount(token2, '10000000000000000000')
+      )
+      const slippage = new Percent('5', '100')
+      const exposure = Sandwich.exposure(exactOut, slippage)
+      expect(exposure.attackerProfit.greaterThan('0')).toBe(true)
+      expect(exposure.victimTrade!.inputAmount.greaterThan(exactOut.maximumAmountIn(slippage))).toBe(false)
+      expect(exposure.victimLoss).toEqual(exposure.victimTrade!.inputAmount.subtract(exactOut.inputAmount))
+    })
+  })
+})
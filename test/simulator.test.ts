@@ -0,0 +1,97 @@
+import JSBI from 'jsbi'
+import {
+  AmountLimitError,
+  ChainId,
+  Pair,
+  Route,
+  Simulator,
+  Token,
+  TokenAmount,
+  Trade,
+  TradeState,
+  TradeType,
+  TradeNotSupportedError
+} from '../src'
+
+const BasicPair = (a: TokenAmount, b: TokenAmount, tradeState: TradeState = TradeState.SELL_ALL): Pair => {
+  return new Pair(a, b, false, 30, 1, 1, tradeState)
+}
+
+describe('Simulator', () => {
+  const token0 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000001', 18, 't0')
+  const token1 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000002', 18, 't1')
+  const token2 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000003', 18, 't2')
+
+  const pair_0_1 = BasicPair(new TokenAmount(token0, JSBI.BigInt(100000)), new TokenAmount(token1, JSBI.BigInt(100000)))
+  const pair_1_2 = BasicPair(new TokenAmount(token1, JSBI.BigInt(100000)), new TokenAmount(token2, JSBI.BigInt(100000)))
+  const pairs = [pair_0_1, pair_1_2]
+
+  describe('#simulateSwaps', () => {
+    it('executes each swap against the reserves left by the one before', () => {
+      const route = new Route([pair_0_1, pair_1_2], token0)
+      const { steps, pairs: finalPairs } = Simulator.simulateSwaps(pairs, [
+        { route, amount: new TokenAmount(token0, JSBI.BigInt(1000)), tradeType: TradeType.EXACT_INPUT },
+        { route, amount: new TokenAmount(token2, JSBI.BigInt(1000)), tradeType: TradeType.EXACT_OUTPUT }
+      ])
+
+      const first = Trade.exactIn(route, new TokenAmount(token0, JSBI.BigInt(1000)))
+      expect(steps[0].trade).toEqual(first)
+      expect(steps[0].pairs).toEqual(first.nextPairs)
+
+      const second = Trade.exactOut(new Route(first.nextPairs, token0), new TokenAmount(token2, JSBI.BigInt(1000)))
+      expect(steps[1].trade).toEqual(second)
+      expect(steps[1].trade!.inputAmount.greaterThan(first.inputAmount)).toBe(true)
+      expect(steps[1].trade!.priceImpact.greaterThan(first.priceImpact)).toBe(true)
+      expect(finalPairs).toEqual(second.nextPairs)
+    })
+
+    it('reverts swaps past their amount limit without changing the pairs', () => {
+      const route = new Route([pair_0_1], token0)
+      const amount = new TokenAmount(token0, JSBI.BigInt(1000))
+      const minimumAmountOut = Trade.exactIn(route, amount).outputAmount
+      const { steps, pairs: finalPairs } = Simulator.simulateSwaps(pairs, [
+        // a swap in front moves the price, so the same swap receives less
+        { route, amount, tradeType: TradeType.EXACT_INPUT },
+        { route, amount, tradeType: TradeType.EXACT_INPUT, amountLimit: minimumAmountOut }
+      ])
+      expect(steps[1].trade).toBeUndefined()
+      expect(steps[1].error).toBeInstanceOf(AmountLimitError)
+      expect(steps[1].pairs).toEqual(steps[0].pairs)
+      expect(finalPairs).toEqual(steps[0].pairs)
+    })
+
+    it('reverts swaps the pairs do not allow', () => {
+      const paused = BasicPair(
+        new TokenAmount(token0, JSBI.BigInt(100000)),
+        new TokenAmount(token1, JSBI.BigInt(100000)),
+        TradeState.SELL_NONE
+      )
+      const { steps } = Simulator.simulateSwaps(
+        [paused, pair_1_2],
+        [
+          {
+            route: new Route([pair_0_1], token0),
+            amount: new TokenAmount(token0, '1000'),
+            tradeType: TradeType.EXACT_INPUT
+          }
+        ]
+      )
+      expect(steps[0].error).toBeInstanceOf(TradeNotSupportedError)
+    })
+
+    it('throws if a pair of a route is missing', () => {
+      expect(() =>
+        Simulator.simulateSwaps(
+          [pair_1_2],
+          [
+            {
+              route: new Route([pair_0_1], token0),
+              amount: new TokenAmount(token0, '1000'),
+              tradeType: TradeType.EXACT_INPUT
+            }
+          ]
+        )
+      ).toThrow('PAIR')
+    })
+  })
+})
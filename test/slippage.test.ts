@@ -0,0 +1,95 @@
+import { ChainId, Pair, Percent, Route, Slippage, Token, TokenAmount, Trade, TradeState } from '../src'
+
+describe('Slippage', () => {
+  const token0 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000001', 18, 't0')
+  const token1 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000002', 18, 't1')
+  const token2 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000003', 18, 't2')
+
+  const pair = (a: TokenAmount, b: TokenAmount, isXybk: boolean = false): Pair =>
+    new Pair(a, b, isXybk, 30, isXybk ? 20 : 1, isXybk ? 20 : 1, TradeState.SELL_ALL)
+
+  const deep = pair(
+    new TokenAmount(token0, '1000000000000000000000000'),
+    new TokenAmount(token1, '1000000000000000000000000')
+  )
+  const thin = pair(
+    new TokenAmount(token1, '1000000000000000000000'),
+    new TokenAmount(token2, '1000000000000000000000')
+  )
+  const xybk = pair(
+    new TokenAmount(token1, '1000000000000000000000'),
+    new TokenAmount(token2, '1000000000000000000000'),
+    true
+  )
+  const amountIn = new TokenAmount(token0, '1000000000000000000')
+
+  describe('#recommend', () => {
+    it('adds up the price move of a reference swap at each hop', () => {
+      const trade = Trade.exactIn(new Route([deep, thin], token0), amountIn)
+      const { allowedSlippage, hops, reasons } = Slippage.recommend(trade)
+      expect(hops.map(hop => hop.pair)).toEqual([deep, thin])
+      // a swap as large as the trade, in front of it at each hop
+      expect(hops[0].referenceAmount).toEqual(amountIn)
+      expect(hops[1].referenceAmount).toEqual(trade.route.pairs[0].getOutputAmount(amountIn)[0])
+      // the trade moves the deep pair 0.0002% and the thin pair 0.2%
+      expect(allowedSlippage).toEqual(new Percent('20', '10000'))
+      expect(reasons).toEqual([
+        't0/t1: a swap of 1 t0 moves the price 0.0002%',
+        't1/t2: a swap of 0.99 t1 moves the price 0.2%'
+      ])
+    })
+
+    it('tolerates more on thin pairs than on deep ones', () => {
+      const thin_0_1 = pair(
+        new TokenAmount(token0, '1000000000000000000000'),
+        new TokenAmount(token1, '1000000000000000000000')
+      )
+      const onDeep = Slippage.recommend(Trade.exactIn(new Route([deep], token0), amountIn))
+      const onThin = Slippage.recommend(Trade.exactIn(new Route([thin_0_1], token0), amountIn))
+      expect(onThin.hops[0].priceMove.greaterThan(onDeep.hops[0].priceMove)).toBe(true)
+      expect(onThin.allowedSlippage.greaterThan(onDeep.allowedSlippage)).toBe(true)
+    })
+
+    it('tolerates more for larger trades', () => {
+      const small = Slippage.recommend(
+        Trade.exactIn(new Route([thin], token1), new TokenAmount(token1, '1000000000000000000'))
+      )
+      const large = Slippage.recommend(
+        Trade.exactIn(new Route([thin], token1), new TokenAmount(token1, '10000000000000000000'))
+      )
+      expect(large.allowedSlippage.greaterThan(small.allowedSlippage)).toBe(true)
+    })
+
+    it('tolerates less on the flatter xybk curve', () => {
+      const amount = new TokenAmount(token1, '10000000000000000000')
+      const uni = Slippage.recommend(Trade.exactIn(new Route([thin], token1), amount))
+      const boosted = Slippage.recommend(Trade.exactIn(new Route([xybk], token1), amount))
+      expect(boosted.allowedSlippage.lessThan(uni.allowedSlippage)).toBe(true)
+      expect(boosted.reasons[0]).toContain('xybk curve boosted 20/20')
+    })
+
+    it('adds the volatility', () => {
+      const trade = Trade.exactIn(new Route([deep, thin], token0), amountIn)
+      const { allowedSlippage, reasons } = Slippage.recommend(trade, { volatility: new Percent('5', '1000') })
+      expect(allowedSlippage).toEqual(new Percent('70', '10000'))
+      expect(reasons[2]).toContain('volatility')
+    })
+
+    it('clamps to the minimum and maximum', () => {
+      const trade = Trade.exactIn(new Route([deep], token0), amountIn)
+      expect(Slippage.recommend(trade, { referenceSize: new Percent('1', '100000') }).allowedSlippage).toEqual(
+        new Percent('10', '10000')
+      )
+      expect(Slippage.recommend(trade, { volatility: new Percent('1', '10') }).allowedSlippage).toEqual(
+        new Percent('500', '10000')
+      )
+    })
+
+    it('throws for a maximum below the minimum', () => {
+      const trade = Trade.exactIn(new Route([deep], token0), amountIn)
+      expect(() =>
+        Slippage.recommend(trade, { minimum: new Percent('1', '10'), maximum: new Percent('1', '100') })
+      ).toThrow('MAXIMUM')
+    })
+  })
+})
@@ -0,0 +1,142 @@
+import JSBI from 'jsbi'
+import { ChainId, Pair, Percent, Route, SplitTrade, Token, TokenAmount, Trade, TradeType, TradeState } from '../src'
+
+const BasicPair = (a: TokenAmount, b: TokenAmount): Pair => {
+  return new Pair(a, b, false, 30, 1, 1, TradeState.SELL_ALL)
+}
+
+describe('SplitTrade', () => {
+  const token0 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000001', 18, 't0')
+  const token1 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000002', 18, 't1')
+  const token2 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000003', 18, 't2')
+
+  const pair_0_1 = BasicPair(new TokenAmount(token0, '100000'), new TokenAmount(token1, '100000'))
+  const pair_0_2 = BasicPair(new TokenAmount(token0, '100000'), new TokenAmount(token2, '100000'))
+  const pair_1_2 = BasicPair(new TokenAmount(token1, '100000'), new TokenAmount(token2, '100000'))
+  const xybk_pair_0_1 = new Pair(
+    new TokenAmount(token0, '100000'),
+    new TokenAmount(token1, '100000'),
+    true,
+    30,
+    10,
+    10,
+    TradeState.SELL_ALL
+  )
+
+  const direct = new Route([pair_0_1], token0)
+  const indirect = new Route([pair_0_2, pair_1_2], token0)
+
+  describe('constructor', () => {
+    it('throws if the percents do not add up to 100%', () => {
+      expect(() =>
+        SplitTrade.exactIn([direct, indirect], new TokenAmount(token0, '1000'), [
+          new Percent('1', '2'),
+          new Percent('1', '4')
+        ])
+      ).toThrow('PERCENTS_SUM')
+    })
+
+    it('throws if routes share a pair', () => {
+      expect(() =>
+        SplitTrade.exactIn([direct, new Route([pair_0_1], token0)], new TokenAmount(token0, '1000'), [
+          new Percent('1', '2'),
+          new Percent('1', '2')
+        ])
+      ).toThrow('OVERLAPPING_ROUTES')
+    })
+
+    it('throws if routes have different outputs', () => {
+      expect(() =>
+        SplitTrade.exactIn([direct, new Route([pair_0_2], token0)], new TokenAmount(token0, '1000'), [
+          new Percent('1', '2'),
+          new Percent('1', '2')
+        ])
+      ).toThrow('ROUTE_CURRENCIES')
+    })
+
+    it('splits the amount in and combines the outputs', () => {
+      const splitTrade = SplitTrade.exactIn([direct, indirect], new TokenAmount(token0, '1001'), [
+        new Percent('1', '2'),
+        new Percent('1', '2')
+      ])
+      expect(splitTrade.trades[0].inputAmount).toEqual(new TokenAmount(token0, '500'))
+      expect(splitTrade.trades[1].inputAmount).toEqual(new TokenAmount(token0, '501'))
+      expect(splitTrade.inputAmount).toEqual(new TokenAmount(token0, '1001'))
+      expect(splitTrade.outputAmount.raw).toEqual(
+        JSBI.add(splitTrade.trades[0].outputAmount.raw, splitTrade.trades[1].outputAmount.raw)
+      )
+      expect(splitTrade.executionPrice.raw.equalTo(splitTrade.outputAmount.divide(splitTrade.inputAmount))).toBe(true)
+      expect(splitTrade.priceImpact.greaterThan(new Percent('0'))).toBe(true)
+    })
+
+    it('splits the amount out for exact out', () => {
+      const splitTrade = SplitTrade.exactOut([direct, indirect], new TokenAmount(token1, '1000'), [
+        new Percent('3', '4'),
+        new Percent('1', '4')
+      ])
+      expect(splitTrade.tradeType).toEqual(TradeType.EXACT_OUTPUT)
+      expect(splitTrade.trades[0].outputAmount).toEqual(new TokenAmount(token1, '750'))
+      expect(splitTrade.trades[1].outputAmount).toEqual(new TokenAmount(token1, '250'))
+      expect(splitTrade.outputAmount).toEqual(new TokenAmount(token1, '1000'))
+    })
+  })
+
+  describe('#bestSplitExactIn', () => {
+    it('beats every single route for large trades', () => {
+      const amountIn = new TokenAmount(token0, '20000')
+      const splitTrade = SplitTrade.bestSplitExactIn([direct, indirect], amountIn)
+      expect(splitTrade).not.toBeNull()
+      expect(splitTrade!.trades).toHaveLength(2)
+      expect(splitTrade!.outputAmount.greaterThan(Trade.exactIn(direct, amountIn).outputAmount)).toBe(true)
+      expect(splitTrade!.outputAmount.greaterThan(Trade.exactIn(indirect, amountIn).outputAmount)).toBe(true)
+      expect(splitTrade!.priceImpact.lessThan(Trade.exactIn(direct, amountIn).priceImpact)).toBe(true)
+    })
+
+    it('sends most of the amount through the deeper xybk pool', () => {
+      const xybkRoute = new Route([xybk_pair_0_1], token0)
+      const splitTrade = SplitTrade.bestSplitExactIn([xybkRoute, indirect], new TokenAmount(token0, '20000'))
+      expect(splitTrade!.routes[0]).toEqual(xybkRoute)
+      expect(splitTrade!.percents[0].greaterThan(new Percent('1', '2'))).toBe(true)
+    })
+
+    it('skips the routes found by bestTradeExactIn that share a pair with a better route', () => {
+      const token3 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000004', 18, 't3')
+      const pair_2_3 = BasicPair(new TokenAmount(token2, '100000'), new TokenAmount(token3, '100000'))
+      const pair_1_3 = BasicPair(new TokenAmount(token1, '100000'), new TokenAmount(token3, '100000'))
+      const amountIn = new TokenAmount(token0, '20000')
+      const routes = Trade.bestTradeExactIn(
+        [pair_0_1, pair_0_2, pair_1_2, pair_2_3, pair_1_3],
+        amountIn,
+        token1,
+        0
+      ).map(trade => trade.route)
+      expect(routes.map(route => route.pairs.length)).toEqual([1, 2, 3])
+      const splitTrade = SplitTrade.bestSplitExactIn(routes, amountIn)
+      expect(splitTrade!.routes).toEqual([routes[0], routes[1]])
+    })
+
+    it('returns null if the amount cannot be filled', () => {
+      const emptyRoute = new Route([BasicPair(new TokenAmount(token0, '0'), new TokenAmount(token1, '0'))], token0)
+      expect(SplitTrade.bestSplitExactIn([emptyRoute], new TokenAmount(token0, '1000'))).toBeNull()
+    })
+  })
+
+  describe('#bestSplitExactOut', () => {
+    it('needs less input than every single route for large trades', () => {
+      const amountOut = new TokenAmount(token1, '20000')
+      const splitTrade = SplitTrade.bestSplitExactOut([direct, indirect], amountOut)
+      expect(splitTrade!.outputAmount).toEqual(amountOut)
+      expect(splitTrade!.inputAmount.lessThan(Trade.exactOut(direct, amountOut).inputAmount)).toBe(true)
+      expect(splitTrade!.inputAmount.lessThan(Trade.exactOut(indirect, amountOut).inputAmount)).toBe(true)
+    })
+
+    it('skips the routes found by bestTradeExactOut that share a pair with a better route', () => {
+      const amountOut = new TokenAmount(token1, '20000')
+      const routes = Trade.bestTradeExactOut([pair_0_1, pair_0_2, pair_1_2], token0, amountOut).map(
+        trade => trade.route
+      )
+      const splitTrade = SplitTrade.bestSplitExactOut([...routes, routes[0]], amountOut)
+      expect(splitTrade!.routes).toEqual(routes)
+    })
+  })
+})
@@ -11,7 +11,8 @@ import {
   Trade,
   TradeType,
   WETH,
-  TradeState
+  TradeState,
+  WrapType
 } from '../src'
 
 const BasicPair = (a: TokenAmount, b: TokenAmount): Pair => {
@@ -189,6 +190,35 @@ describe('Trade', () => {
     })
   })
 
+  describe('wrap', () => {
+    it('converts ether to weth 1:1', () => {
+      const trade = Trade.exactIn(new Route([], ETHER, WETH[ChainId.MAINNET]), CurrencyAmount.ether(JSBI.BigInt(100)))
+      expect(trade.outputAmount).toEqual(new TokenAmount(WETH[ChainId.MAINNET], JSBI.BigInt(100)))
+      expect(trade.priceImpact.toSignificant(1)).toEqual('0')
+      expect(trade.nextMidPrice.raw.toSignificant(6)).toEqual('1')
+    })
+
+    it('converts weth to ether 1:1 for exact output', () => {
+      const trade = Trade.exactOut(new Route([], WETH[ChainId.MAINNET], ETHER), CurrencyAmount.ether(JSBI.BigInt(100)))
+      expect(trade.inputAmount).toEqual(new TokenAmount(WETH[ChainId.MAINNET], JSBI.BigInt(100)))
+    })
+
+    it('is the only trade found between ether and weth', () => {
+      const exactIn = Trade.bestTradeExactIn(
+        [pair_weth_0],
+        CurrencyAmount.ether(JSBI.BigInt(100)),
+        WETH[ChainId.MAINNET],
+        10
+      )
+      expect(exactIn).toHaveLength(1)
+      expect(exactIn[0].route.wrapType).toEqual(WrapType.WRAP)
+      const exactOut = Trade.bestTradeExactOut([], WETH[ChainId.MAINNET], CurrencyAmount.ether(JSBI.BigInt(100)))
+      expect(exactOut).toHaveLength(1)
+      expect(exactOut[0].route.wrapType).toEqual(WrapType.UNWRAP)
+      expect(exactOut[0].inputAmount).toEqual(new TokenAmount(WETH[ChainId.MAINNET], JSBI.BigInt(100)))
+    })
+  })
+
   describe('#maximumAmountIn', () => {
     describe('tradeType = EXACT_INPUT', () => {
       const exactIn = new Trade(
@@ -245,6 +275,45 @@ describe('Trade', () => {
     })
   })
 
+  describe('#nextPairs', () => {
+    it('is the state of each pair after the trade', () => {
+      const trade = Trade.exactIn(new Route([pair_0_1, pair_1_2], token0), new TokenAmount(token0, JSBI.BigInt(100)))
+      const [amountOut, , nextPair] = pair_0_1.getOutputAmount(new TokenAmount(token0, JSBI.BigInt(100)))
+      expect(trade.nextPairs).toHaveLength(2)
+      expect(trade.nextPairs[0]).toEqual(nextPair)
+      expect(trade.nextPairs[1].reserveOf(token1).raw).toEqual(JSBI.add(pair_1_2.reserveOf(token1).raw, amountOut.raw))
+    })
+
+    it('is empty for wrap trades', () => {
+      expect(Trade.exactIn(new Route([], ETHER, WETH[ChainId.MAINNET]), CurrencyAmount.ether('100')).nextPairs).toEqual(
+        []
+      )
+    })
+  })
+
+  describe('#applyToPairs', () => {
+    const pairs = [pair_0_1, pair_0_2, pair_0_3, pair_1_2]
+
+    it('replaces the pairs of the route with their next state', () => {
+      const trade = Trade.exactOut(new Route([pair_0_1, pair_1_2], token0), new TokenAmount(token2, JSBI.BigInt(100)))
+      expect(trade.applyToPairs(pairs)).toEqual([trade.nextPairs[0], pair_0_2, pair_0_3, trade.nextPairs[1]])
+      expect(pairs).toEqual([pair_0_1, pair_0_2, pair_0_3, pair_1_2])
+    })
+
+    it('lets trades execute one after another', () => {
+      const route = new Route([pair_0_2], token0)
+      const first = Trade.exactIn(route, new TokenAmount(token0, JSBI.BigInt(100)))
+      const [nextPair] = first.applyToPairs(pairs).filter(pair => pair.involvesToken(token2))
+      const second = Trade.exactIn(new Route([nextPair], token0), new TokenAmount(token0, JSBI.BigInt(100)))
+      expect(second.outputAmount.lessThan(first.outputAmount)).toBe(true)
+    })
+
+    it('throws if a pair of the route is missing', () => {
+      const trade = Trade.exactIn(new Route([pair_1_3], token1), new TokenAmount(token1, JSBI.BigInt(100)))
+      expect(() => trade.applyToPairs(pairs)).toThrow('PAIR')
+    })
+  })
+
   describe('#minimumAmountOut', () => {
     describe('tradeType = EXACT_INPUT', () => {
       const exactIn = new Trade(
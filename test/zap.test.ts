@@ -0,0 +1,114 @@
+import JSBI from 'jsbi'
+import { ChainId, Pair, Percent, Route, Token, TokenAmount, Trade, TradeState, Zap } from '../src'
+
+describe('Zap', () => {
+  const token0 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000001', 18, 't0')
+  const token1 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000002', 18, 't1')
+  const pair = new Pair(
+    new TokenAmount(token0, '1000000000000000000000'),
+    new TokenAmount(token1, '1200000000000000000000'),
+    true,
+    30,
+    20,
+    5,
+    TradeState.SELL_ALL
+  )
+  const totalSupply = new TokenAmount(pair.liquidityToken, '1000000000000000000000')
+  const options = {
+    ttl: 50,
+    recipient: '0x0000000000000000000000000000000000000004',
+    allowedSlippage: new Percent('1', '100')
+  }
+
+  describe('#zapIn', () => {
+    const amountIn = new TokenAmount(token0, '100000000000000000000')
+    const zapIn = Zap.zapIn(pair, amountIn, totalSupply, options)
+
+    it('splits the input between the swap and the liquidity', () => {
+      expect(zapIn.swapAmount.add(zapIn.remainingAmount)).toEqual(amountIn)
+      expect(pair.getZapInAmount(amountIn)).toEqual([zapIn.swapAmount, zapIn.swapOutputAmount, zapIn.nextPair])
+    })
+
+    it('adds no more than the swap guarantees', () => {
+      const trade = Trade.exactIn(new Route([pair], token0), zapIn.swapAmount)
+      expect(zapIn.minimumSwapOutputAmount).toEqual(trade.minimumAmountOut(options.allowedSlippage))
+      expect(zapIn.minimumSwapOutputAmount.lessThan(zapIn.swapOutputAmount)).toBe(true)
+      expect(zapIn.addedAmount.lessThan(zapIn.remainingAmount)).toBe(true)
+      // the added amounts are at the ratio of the reserves after the swap
+      const ratio = zapIn.nextPair.reserve0.divide(zapIn.nextPair.reserve1)
+      const addedRatio = zapIn.addedAmount.divide(zapIn.minimumSwapOutputAmount)
+      expect(addedRatio.toSignificant(8)).toEqual(ratio.toSignificant(8))
+    })
+
+    it('mints liquidity against the pair after the swap', () => {
+      expect(zapIn.liquidityMinted).toEqual(
+        zapIn.nextPair.getLiquidityMinted(totalSupply, zapIn.addedAmount, zapIn.minimumSwapOutputAmount)
+      )
+      expect(JSBI.greaterThan(zapIn.liquidityMinted.raw, JSBI.BigInt(0))).toBe(true)
+    })
+
+    it('swaps and then adds the liquidity through the router', () => {
+      expect(zapIn.swapParameters.methodName).toEqual('swapExactTokensForTokens')
+      expect(zapIn.swapParameters.args[0]).toEqual(`0x${zapIn.swapAmount.raw.toString(16)}`)
+      expect(zapIn.swapParameters.args[2]).toEqual([token0.address, token1.address])
+      expect(zapIn.addLiquidityParameters.methodName).toEqual('addLiquidity')
+      expect(zapIn.addLiquidityParameters.args.slice(0, 4)).toEqual([
+        token0.address,
+        token1.address,
+        `0x${zapIn.addedAmount.raw.toString(16)}`,
+        `0x${zapIn.minimumSwapOutputAmount.raw.toString(16)}`
+      ])
+    })
+  })
+
+  describe('#zapOut', () => {
+    const liquidity = new TokenAmount(pair.liquidityToken, '100000000000000000000')
+    const zapOut = Zap.zapOut(pair, liquidity, totalSupply, token1, options)
+
+    it('withdraws both tokens and swaps the other token through the pair after the burn', () => {
+      expect(zapOut.withdrawnAmount).toEqual(new TokenAmount(token1, '120000000000000000000'))
+      // the least the removal withdraws of the other token at 1% slippage
+      expect(zapOut.swapAmount).toEqual(new TokenAmount(token0, '99009900990099009900'))
+      const burnedPair = pair.withReserves(
+        new TokenAmount(token0, '900000000000000000000'),
+        new TokenAmount(token1, '1080000000000000000000')
+      )
+      const [swapOutputAmount, , nextPair] = burnedPair.getOutputAmount(zapOut.swapAmount)
+      expect(zapOut.swapOutputAmount).toEqual(swapOutputAmount)
+      expect(zapOut.nextPair).toEqual(nextPair)
+      expect(zapOut.outputAmount).toEqual(zapOut.withdrawnAmount.add(swapOutputAmount))
+    })
+
+    it('has a price impact and a slippage protected minimum output', () => {
+      expect(zapOut.priceImpact.greaterThan(new Percent('0'))).toBe(true)
+      expect(zapOut.priceImpact.lessThan(new Percent('5', '100'))).toBe(true)
+      expect(zapOut.minimumOutputAmount.lessThan(zapOut.outputAmount)).toBe(true)
+      expect(zapOut.minimumOutputAmount.greaterThan(zapOut.withdrawnAmount)).toBe(true)
+    })
+
+    it('swaps and promises only what the removal guarantees', () => {
+      // (address tokenA, address tokenB, uint liquidity, uint amountAMin, uint amountBMin, address to, uint deadline)
+      const [, , , amount0Min, amount1Min] = zapOut.removeLiquidityParameters.args
+      expect(amount0Min).toEqual(`0x${zapOut.swapAmount.raw.toString(16)}`)
+      expect(amount1Min).toEqual(`0x${zapOut.minimumWithdrawnAmount.raw.toString(16)}`)
+      // (uint amountIn, uint amountOutMin, address[] path, address to, uint deadline)
+      const amountOutMin = JSBI.BigInt(zapOut.swapParameters.args[1] as string)
+      expect(zapOut.minimumOutputAmount).toEqual(
+        zapOut.minimumWithdrawnAmount.add(new TokenAmount(token1, amountOutMin))
+      )
+    })
+
+    it('removes the liquidity and then swaps through the router', () => {
+      expect(zapOut.removeLiquidityParameters.methodName).toEqual('removeLiquidity')
+      expect(zapOut.removeLiquidityParameters.args[2]).toEqual(`0x${liquidity.raw.toString(16)}`)
+      expect(zapOut.swapParameters.methodName).toEqual('swapExactTokensForTokens')
+      expect(zapOut.swapParameters.args[0]).toEqual(`0x${zapOut.swapAmount.raw.toString(16)}`)
+      expect(zapOut.swapParameters.args[2]).toEqual([token0.address, token1.address])
+    })
+
+    it('throws for tokens not in the pair', () => {
+      const token2 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000003', 18, 't2')
+      expect(() => Zap.zapOut(pair, liquidity, totalSupply, token2, options)).toThrow('TOKEN')
+    })
+  })
+})